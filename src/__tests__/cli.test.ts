@@ -0,0 +1,163 @@
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { PassThrough, Readable } from "stream";
+import { parseInput, run } from "../cli";
+import { HDBSCAN } from "../hdbscan/core";
+
+const points = [
+  [1, 1],
+  [1.5, 1],
+  [1, 1.5],
+  [1.2, 1.1],
+  [5, 5],
+  [5.65, 4.87],
+  [5.12, 5.59],
+  [4.9, 5.6],
+  [3, 3]
+];
+
+async function cli(args: string[], input = "") {
+  const stdout = new PassThrough();
+  const stderr = new PassThrough();
+  const read = (stream: PassThrough) => {
+    const chunks: Buffer[] = [];
+    stream.on("data", (chunk) => chunks.push(chunk));
+    return () => Buffer.concat(chunks).toString("utf8");
+  };
+  const [out, err] = [read(stdout), read(stderr)];
+  const code = await run(args, {
+    stdin: Readable.from([input]),
+    stdout,
+    stderr
+  });
+  return { code, stdout: out(), stderr: err() };
+}
+
+describe("cli", () => {
+  const expected = new HDBSCAN({ minClusterSize: 3, minSamples: 2 });
+  expected.fit(points);
+
+  test("should cluster CSV from stdin to CSV on stdout", async () => {
+    const csv = ["x,y,name", ...points.map((p, i) => `${p},"p ${i}"`)].join(
+      "\n"
+    );
+    const { code, stdout } = await cli(
+      [
+        "--min-cluster-size",
+        "3",
+        "--min-samples=2",
+        "--columns",
+        "x,y",
+        "--outlier-scores"
+      ],
+      csv
+    );
+
+    expect(code).toBe(0);
+    const [header, ...rows] = stdout.trim().split("\n");
+    expect(header).toBe("label,probability,outlier_score");
+    expect(rows.map((row) => row.split(",").map(Number))).toEqual(
+      expected.labels_.map((label, i) => [
+        label,
+        expected.probabilities_[i],
+        expected.outlierScores_[i]
+      ])
+    );
+  });
+
+  test("should read and write files by extension", async () => {
+    const dir = await fs.mkdtemp(join(tmpdir(), "hdbscan-cli-"));
+    const input = join(dir, "points.tsv");
+    const output = join(dir, "labels.json");
+    await fs.writeFile(input, points.map((p) => p.join("\t")).join("\n"));
+
+    const { code } = await cli([
+      input,
+      "-o",
+      output,
+      "--min-cluster-size",
+      "3",
+      "--min-samples",
+      "2"
+    ]);
+
+    expect(code).toBe(0);
+    expect(JSON.parse(await fs.readFile(output, "utf8"))).toEqual({
+      labels: expected.labels_,
+      probabilities: expected.probabilities_
+    });
+    await fs.rm(dir, { recursive: true });
+  });
+
+  test("should keep debug logs off stdout", async () => {
+    const csv = points.map((p) => p.join(",")).join("\n");
+    const { code, stdout, stderr } = await cli(
+      ["--debug", "--min-cluster-size", "3", "--min-samples", "2"],
+      csv
+    );
+
+    expect(code).toBe(0);
+    expect(stdout).not.toMatch(/HDBSCAN/);
+    expect(stdout.trim().split("\n")).toHaveLength(points.length + 1);
+    expect(stderr).toMatch(/\[HDBSCAN\] Fit finished/);
+  });
+
+  test("should parse JSON rows and detect headers", () => {
+    const json = (value: unknown) => JSON.stringify(value);
+    expect(parseInput(json(points), { format: "json" })).toEqual(points);
+    expect(
+      parseInput(json([{ id: "a", x: 1, y: 2 }]), {
+        format: "json",
+        columns: "x,y"
+      })
+    ).toEqual([[1, 2]]);
+
+    expect(parseInput("1,2\n3,4\n", { format: "csv" })).toEqual([
+      [1, 2],
+      [3, 4]
+    ]);
+    expect(
+      parseInput("a;b;c\r\n1;2;3\r\n\r\n4;5;6", {
+        format: "csv",
+        delimiter: ";",
+        columns: "1,3"
+      })
+    ).toEqual([
+      [1, 3],
+      [4, 6]
+    ]);
+    // a numeric first row is a header only when asked
+    expect(
+      parseInput("1,2\n3,4", { format: "csv", header: true, columns: "2" })
+    ).toEqual([[4]]);
+  });
+
+  test("should report bad input and flags on stderr", async () => {
+    expect(await cli(["--min-cluster-size", "many"])).toMatchObject({
+      code: 1,
+      stderr: 'hdbscan: --min-cluster-size expects a number, got "many"\n'
+    });
+    expect((await cli(["--bogus"])).stderr).toMatch(/Unknown option --bogus/);
+    expect((await cli([], "x,y\n1,oops")).stderr).toMatch(
+      /Row 1, column y is not a number: "oops"/
+    );
+    expect((await cli(["--columns", "z"], "x,y\n1,2")).stderr).toMatch(
+      /Unknown column "z"/
+    );
+    expect((await cli(["--metric", "nope"], "1,2")).stderr).toMatch(
+      /Unknown metric/
+    );
+    expect(await cli(["--delimiter="], "1,2")).toMatchObject({
+      code: 1,
+      stderr:
+        'hdbscan: --delimiter must be a single character other than a quote or line break, got ""\n'
+    });
+    expect((await cli(["--delimiter", "::"], "1::2")).stderr).toMatch(
+      /single character/
+    );
+    const help = await cli(["--help"]);
+    expect(help.code).toBe(0);
+    expect(help.stdout).toMatch(/--max-cluster-size <value>/);
+  });
+});
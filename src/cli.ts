@@ -0,0 +1,505 @@
+#!/usr/bin/env node
+import { Console } from "console";
+import { promises as fs } from "fs";
+import { extname } from "path";
+import { HDBSCAN, HDBSCANParams } from "./hdbscan/core";
+import { consoleLogger } from "./hdbscan/logger";
+
+type Format = "csv" | "tsv" | "json";
+
+interface Flag {
+  name: string;
+  type: "number" | "string" | "boolean";
+  description: string;
+  param?: keyof HDBSCANParams; // set for flags passed on to HDBSCAN
+  alias?: string;
+}
+
+// Every HDBSCANParams option except shouldSkipRootCluster, superseded by
+// --allow-single-cluster, and custom metric functions, which a shell cannot
+// pass
+const FLAGS: Flag[] = [
+  {
+    name: "min-cluster-size",
+    type: "number",
+    param: "minClusterSize",
+    description: "Minimum size of clusters (default 5)"
+  },
+  {
+    name: "min-samples",
+    type: "number",
+    param: "minSamples",
+    description: "Neighbors used for core distances (default min-cluster-size)"
+  },
+  {
+    name: "alpha",
+    type: "number",
+    param: "alpha",
+    description: "Divide direct distances by alpha (default 1)"
+  },
+  {
+    name: "metric",
+    type: "string",
+    param: "metric",
+    description:
+      "euclidean, sqeuclidean, manhattan, chebyshev, minkowski, cosine or precomputed (default euclidean)"
+  },
+  {
+    name: "p",
+    type: "number",
+    param: "p",
+    description: "Power of the minkowski metric (default 2)"
+  },
+  {
+    name: "algorithm",
+    type: "string",
+    param: "algorithm",
+    description:
+      "best, generic, prims, prims_kdtree, prims_balltree, boruvka, boruvka_kdtree or boruvka_balltree (default best)"
+  },
+  {
+    name: "leaf-size",
+    type: "number",
+    param: "leafSize",
+    description: "Points per leaf of the spatial index (default 40)"
+  },
+  {
+    name: "cluster-selection-method",
+    type: "string",
+    param: "clusterSelectionMethod",
+    description: "eom or leaf (default eom)"
+  },
+  {
+    name: "cluster-selection-epsilon",
+    type: "number",
+    param: "clusterSelectionEpsilon",
+    description: "Merge clusters born below this distance (default 0)"
+  },
+  {
+    name: "allow-single-cluster",
+    type: "boolean",
+    param: "allowSingleCluster",
+    description: "Let all the data form one cluster"
+  },
+  {
+    name: "max-cluster-size",
+    type: "number",
+    param: "maxClusterSize",
+    description: "Split clusters with more points (default no limit)"
+  },
+  {
+    name: "debug",
+    type: "boolean",
+    description: "Log the steps of the fit to stderr"
+  },
+  {
+    name: "workers",
+    type: "number",
+    description: "Fit across this many worker threads (default 1)"
+  },
+  {
+    name: "format",
+    type: "string",
+    description:
+      "Input format: csv, tsv or json (default from the file extension, else detected)"
+  },
+  {
+    name: "delimiter",
+    type: "string",
+    description:
+      "Field separator of delimited input, one character (default , or tab)"
+  },
+  {
+    name: "header",
+    type: "boolean",
+    description:
+      "The first row holds column names (default: when it is not numeric)"
+  },
+  {
+    name: "no-header",
+    type: "boolean",
+    description: "The first row is data"
+  },
+  {
+    name: "columns",
+    type: "string",
+    description:
+      "Columns to cluster on, by name or 1-based position, e.g. x,y or 2-5 (default all)"
+  },
+  {
+    name: "output",
+    alias: "o",
+    type: "string",
+    description: "Write results to this file instead of stdout"
+  },
+  {
+    name: "output-format",
+    type: "string",
+    description:
+      "csv, tsv or json (default from the output extension, else csv)"
+  },
+  {
+    name: "outlier-scores",
+    type: "boolean",
+    description: "Also write GLOSH outlier scores"
+  },
+  {
+    name: "help",
+    alias: "h",
+    type: "boolean",
+    description: "Show this help"
+  }
+];
+
+const USAGE = `Usage: hdbscan [options] [file]
+
+Clusters the rows of a CSV, TSV or JSON file, or of stdin when no file (or -)
+is given, and writes one label, probability and optionally outlier score per
+row. JSON input is an array of rows, either arrays of numbers or objects.
+
+Options:
+${FLAGS.map(({ name, alias, type, description }) => {
+  const flag = `${alias ? `-${alias}, ` : "    "}--${name}${
+    type === "boolean" ? "" : " <value>"
+  }`;
+  return `  ${flag.padEnd(38)} ${description}`;
+}).join("\n")}
+`;
+
+interface Streams {
+  stdin: NodeJS.ReadableStream;
+  stdout: NodeJS.WritableStream;
+  stderr: NodeJS.WritableStream;
+}
+
+type Options = Record<string, string | number | boolean>;
+
+// Runs the command line and resolves to the exit code
+export async function run(
+  args: string[],
+  { stdin, stdout, stderr }: Streams
+): Promise<number> {
+  try {
+    const { options, files } = parseArgs(args);
+    if (options.help) {
+      stdout.write(USAGE);
+      return 0;
+    }
+    if (files.length > 1) {
+      throw new Error(`Expected at most one input file, got ${files.length}`);
+    }
+
+    const file = files[0] ?? "-";
+    const text =
+      file === "-" ? await readStream(stdin) : await fs.readFile(file, "utf8");
+    const data = parseInput(text, {
+      format: formatOption(options.format) ?? formatOf(file) ?? sniff(text),
+      delimiter: options.delimiter as string | undefined,
+      header: options.header ? true : options["no-header"] ? false : undefined,
+      columns: options.columns as string | undefined
+    });
+
+    const params: HDBSCANParams = {};
+    FLAGS.forEach(({ name, param }) => {
+      if (param && options[name] !== undefined) {
+        (params as Record<string, unknown>)[param] = options[name];
+      }
+    });
+    if (options.debug) {
+      // stdout may be carrying the results
+      params.logger = consoleLogger("debug", new Console(stderr));
+    }
+    const hdbscan = new HDBSCAN(params);
+    const workers = options.workers as number | undefined;
+    if (workers !== undefined && workers > 1) {
+      await hdbscan.fitAsync(data, { workers });
+    } else {
+      hdbscan.fit(data);
+    }
+
+    const output = options.output as string | undefined;
+    const result = formatResult(
+      hdbscan,
+      formatOption(options["output-format"]) ??
+        (output ? formatOf(output) : undefined) ??
+        "csv",
+      Boolean(options["outlier-scores"])
+    );
+    if (output && output !== "-") {
+      await fs.writeFile(output, result);
+    } else {
+      stdout.write(result);
+    }
+    return 0;
+  } catch (error) {
+    stderr.write(`hdbscan: ${(error as Error).message}\n`);
+    return 1;
+  }
+}
+
+function parseArgs(args: string[]): { options: Options; files: string[] } {
+  const options: Options = {};
+  const files: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith("-") || arg === "-") {
+      files.push(arg);
+      continue;
+    }
+    if (arg === "--") {
+      files.push(...args.slice(i + 1));
+      break;
+    }
+
+    const [key, inline] = arg.replace(/^--?/, "").split(/=(.*)/s);
+    const flag = FLAGS.find(({ name, alias }) =>
+      arg.startsWith("--") ? name === key : alias === key
+    );
+    if (!flag) {
+      throw new Error(`Unknown option ${arg}, see --help`);
+    }
+    if (flag.type === "boolean") {
+      if (inline !== undefined) {
+        throw new Error(`--${flag.name} does not take a value`);
+      }
+      options[flag.name] = true;
+      continue;
+    }
+
+    const value = inline ?? args[++i];
+    if (value === undefined) {
+      throw new Error(`--${flag.name} expects a value`);
+    }
+    if (flag.type === "number") {
+      const number = Number(value);
+      if (value.trim() === "" || Number.isNaN(number)) {
+        throw new Error(`--${flag.name} expects a number, got "${value}"`);
+      }
+      options[flag.name] = number;
+    } else {
+      options[flag.name] = value;
+    }
+  }
+  return { options, files };
+}
+
+function formatOption(value: unknown): Format | undefined {
+  if (value === undefined) return undefined;
+  if (value === "csv" || value === "tsv" || value === "json") return value;
+  throw new Error(`Unknown format "${value}", expected csv, tsv or json`);
+}
+
+function formatOf(file: string): Format | undefined {
+  switch (extname(file).toLowerCase()) {
+    case ".csv":
+      return "csv";
+    case ".tsv":
+    case ".tab":
+      return "tsv";
+    case ".json":
+      return "json";
+    default:
+      return undefined;
+  }
+}
+
+// Input without a telling extension: JSON when it looks like it, TSV when
+// the first line has tabs, CSV otherwise
+function sniff(text: string): Format {
+  const start = text.trimStart();
+  if (start.startsWith("[") || start.startsWith("{")) return "json";
+  return start.split("\n", 1)[0].includes("\t") ? "tsv" : "csv";
+}
+
+interface InputOptions {
+  format: Format;
+  delimiter?: string;
+  header?: boolean; // undefined to detect
+  columns?: string;
+}
+
+// Rows of numbers from the text of a CSV, TSV or JSON file
+export function parseInput(
+  text: string,
+  { format, delimiter, header, columns }: InputOptions
+): number[][] {
+  let names: string[] | undefined;
+  let rows: unknown[][];
+  if (format === "json") {
+    const json = JSON.parse(text);
+    if (!Array.isArray(json)) {
+      throw new Error("JSON input must be an array of rows");
+    }
+    if (json.length > 0 && !Array.isArray(json[0])) {
+      names = Object.keys(json[0]);
+      rows = json.map((row) => names!.map((name) => row?.[name]));
+    } else {
+      rows = json;
+    }
+  } else {
+    if (
+      delimiter !== undefined &&
+      (delimiter.length !== 1 || '"\r\n'.includes(delimiter))
+    ) {
+      throw new Error(
+        `--delimiter must be a single character other than a quote or line break, got ${JSON.stringify(
+          delimiter
+        )}`
+      );
+    }
+    rows = parseDelimited(text, delimiter ?? (format === "tsv" ? "\t" : ","));
+    const first = rows[0] as string[] | undefined;
+    const hasHeader =
+      header ??
+      (first !== undefined && first.some((field) => !isNumber(field)));
+    if (hasHeader && first) {
+      names = first.map((name) => name.trim());
+      rows = rows.slice(1);
+    }
+  }
+
+  const width = names?.length ?? rows[0]?.length ?? 0;
+  const selected = columns
+    ? selectColumns(columns, names, width)
+    : Array.from({ length: width }, (_, i) => i);
+  return rows.map((row, i) => {
+    if (!Array.isArray(row)) {
+      throw new Error(`Row ${i + 1} is not an array`);
+    }
+    return selected.map((column) => {
+      const value = row[column];
+      const number = typeof value === "number" ? value : Number(value);
+      if (
+        value === undefined ||
+        value === null ||
+        (typeof value === "string" && !isNumber(value)) ||
+        Number.isNaN(number)
+      ) {
+        throw new Error(
+          `Row ${i + 1}, column ${names?.[column] ?? column + 1} is not a number: ${JSON.stringify(
+            value ?? null
+          )}`
+        );
+      }
+      return number;
+    });
+  });
+}
+
+function isNumber(field: string): boolean {
+  return field.trim() !== "" && !Number.isNaN(Number(field));
+}
+
+// RFC 4180 fields: quotes around fields with delimiters, quotes or line
+// breaks, "" for a quote inside them. Blank lines are skipped.
+function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== "") rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === "") {
+      quoted = true;
+      field = "";
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new Error("Unterminated quoted field");
+  }
+  if (field !== "" || row.length > 0) endRow();
+  return rows;
+}
+
+// Column positions from names, 1-based positions and ranges such as 2-5
+function selectColumns(
+  spec: string,
+  names: string[] | undefined,
+  width: number
+): number[] {
+  return spec.split(",").flatMap((part) => {
+    const name = part.trim();
+    const named = names?.indexOf(name) ?? -1;
+    if (named !== -1) return [named];
+
+    const range = name.match(/^(\d+)(?:-(\d+))?$/);
+    if (!range) {
+      throw new Error(
+        names
+          ? `Unknown column "${name}"`
+          : `Column "${name}" needs a header row to be selected by name`
+      );
+    }
+    const from = Number(range[1]);
+    const to = Number(range[2] ?? range[1]);
+    if (from < 1 || to > width || from > to) {
+      throw new Error(
+        `Column range ${name} is outside the ${width} columns of the input`
+      );
+    }
+    return Array.from({ length: to - from + 1 }, (_, i) => from - 1 + i);
+  });
+}
+
+function formatResult(
+  hdbscan: HDBSCAN,
+  format: Format,
+  withOutlierScores: boolean
+): string {
+  const { labels_, probabilities_, outlierScores_ } = hdbscan;
+  if (format === "json") {
+    return `${JSON.stringify({
+      labels: labels_,
+      probabilities: probabilities_,
+      ...(withOutlierScores ? { outlierScores: outlierScores_ } : {})
+    })}\n`;
+  }
+
+  const delimiter = format === "tsv" ? "\t" : ",";
+  const header = ["label", "probability"];
+  if (withOutlierScores) header.push("outlier_score");
+  const lines = labels_.map((label, i) => {
+    const fields = [label, probabilities_[i]];
+    if (withOutlierScores) fields.push(outlierScores_[i]);
+    return fields.join(delimiter);
+  });
+  return [header.join(delimiter), ...lines].join("\n") + "\n";
+}
+
+async function readStream(stream: NodeJS.ReadableStream): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+if (require.main === module) {
+  run(process.argv.slice(2), process).then((code) => {
+    process.exitCode = code;
+  });
+}
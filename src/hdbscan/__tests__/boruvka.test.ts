@@ -0,0 +1,122 @@
+import { boruvkaMinimumSpanningTree, SpanningTree } from "../boruvka";
+import { euclideanDistance, manhattanDistance } from "../metrics";
+import { BallTree, KDTree } from "../trees";
+
+function randomPoints(n: number, dims: number, seed = 7): number[][] {
+  let state = seed;
+  const random = () => {
+    state = (state * 16807) % 2147483647;
+    return state / 2147483647;
+  };
+  return Array.from({ length: n }, () =>
+    Array.from({ length: dims }, () => random() * 10)
+  );
+}
+
+function coreDistances(
+  data: number[][],
+  k: number,
+  distance: (a: number[], b: number[]) => number
+): number[] {
+  return data.map(
+    (point) =>
+      data.map((other) => distance(point, other)).sort((a, b) => a - b)[k]
+  );
+}
+
+function toEdges({ from, to, weights }: SpanningTree) {
+  return Array.from(weights, (w, i): [number, number, number] => [
+    from[i],
+    to[i],
+    w
+  ]);
+}
+
+// Reference total weight from a dense Prim's over mutual reachability
+function primsWeight(
+  data: number[][],
+  core: number[],
+  distance: (a: number[], b: number[]) => number
+): number {
+  const n = data.length;
+  const visited = new Array(n).fill(false);
+  const best = new Array(n).fill(Infinity);
+  best[0] = 0;
+  let total = 0;
+  for (let step = 0; step < n; step++) {
+    let next = -1;
+    for (let i = 0; i < n; i++) {
+      if (!visited[i] && (next === -1 || best[i] < best[next])) next = i;
+    }
+    visited[next] = true;
+    total += best[next];
+    for (let i = 0; i < n; i++) {
+      const weight = Math.max(
+        distance(data[next], data[i]),
+        core[next],
+        core[i]
+      );
+      if (!visited[i] && weight < best[i]) best[i] = weight;
+    }
+  }
+  return total;
+}
+
+describe("boruvkaMinimumSpanningTree", () => {
+  test.each([
+    ["KDTree", KDTree, euclideanDistance],
+    ["BallTree", BallTree, manhattanDistance]
+  ] as const)(
+    "should build a minimum spanning tree with a %s",
+    (_, Tree, distance) => {
+      const data = randomPoints(250, 2);
+      const core = coreDistances(data, 4, distance);
+      const tree = new Tree(data, distance, 8);
+
+      const edges = toEdges(
+        boruvkaMinimumSpanningTree(tree, data, core, distance)
+      );
+
+      expect(edges).toHaveLength(data.length - 1);
+      const total = edges.reduce((sum, [, , w]) => sum + w, 0);
+      expect(total).toBeCloseTo(primsWeight(data, core, distance));
+
+      // every edge weight is the mutual reachability of its endpoints
+      edges.forEach(([a, b, w]) =>
+        expect(w).toBeCloseTo(
+          Math.max(distance(data[a], data[b]), core[a], core[b])
+        )
+      );
+
+      // the edges connect every point
+      const reached = new Set([0]);
+      let grew = true;
+      while (grew) {
+        grew = false;
+        edges.forEach(([a, b]) => {
+          if (reached.has(a) !== reached.has(b)) {
+            reached.add(a);
+            reached.add(b);
+            grew = true;
+          }
+        });
+      }
+      expect(reached.size).toBe(data.length);
+    }
+  );
+
+  test("should handle duplicate points", () => {
+    const data = [...randomPoints(20, 2), ...randomPoints(20, 2)];
+    const core = coreDistances(data, 3, euclideanDistance);
+    const tree = new KDTree(data, euclideanDistance, 4);
+
+    const edges = toEdges(
+      boruvkaMinimumSpanningTree(tree, data, core, euclideanDistance)
+    );
+
+    expect(edges).toHaveLength(data.length - 1);
+    expect(edges.reduce((sum, [, , w]) => sum + w, 0)).toBeCloseTo(
+      primsWeight(data, core, euclideanDistance)
+    );
+  });
+});
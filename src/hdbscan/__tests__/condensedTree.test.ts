@@ -0,0 +1,65 @@
+import { CondensedTree } from "../condensedTree";
+
+describe("CondensedTree", () => {
+  // 6 points: root 6 splits into clusters 7 (points 0-2) and 8 (points 3-5),
+  // point 5 falls out of cluster 8 before the others
+  const tree = new CondensedTree(
+    [
+      { parent: 6, child: 7, lambdaVal: 0.5, childSize: 3 },
+      { parent: 6, child: 8, lambdaVal: 0.5, childSize: 3 },
+      { parent: 7, child: 0, lambdaVal: 2, childSize: 1 },
+      { parent: 7, child: 1, lambdaVal: 2, childSize: 1 },
+      { parent: 7, child: 2, lambdaVal: 2, childSize: 1 },
+      { parent: 8, child: 5, lambdaVal: 1, childSize: 1 },
+      { parent: 8, child: 3, lambdaVal: Infinity, childSize: 1 },
+      { parent: 8, child: 4, lambdaVal: Infinity, childSize: 1 }
+    ],
+    6
+  );
+
+  test("should navigate between parents and children", () => {
+    expect(tree.root).toBe(6);
+    expect(tree.clusters()).toEqual([6, 7, 8]);
+    expect(tree.childClusters(6)).toEqual([7, 8]);
+    expect(tree.children(8).map((row) => row.child)).toEqual([5, 3, 4]);
+    expect(tree.parent(5)).toBe(8);
+    expect(tree.parent(6)).toBeUndefined();
+    expect(tree.row(5)?.lambdaVal).toBe(1);
+    expect(tree.leaves()).toEqual([7, 8]);
+    expect(tree.clusterPoints(6).sort()).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(tree.isCluster(5)).toBe(false);
+    expect(tree.isCluster(7)).toBe(true);
+  });
+
+  test("should compute the excess of mass of a cluster", () => {
+    // (2 - 0.5) for each point of cluster 7
+    expect(tree.stability(7)).toBe(4.5);
+    // both children of the root leave at 0.5, the root is born at 0
+    expect(tree.stability(6)).toBe(3);
+    // duplicates never leave
+    expect(tree.stability(8)).toBe(Infinity);
+  });
+
+  test("should round-trip through JSON", () => {
+    const json = JSON.parse(JSON.stringify(tree));
+
+    expect(json.numPoints).toBe(6);
+    expect(json.rows[6]).toEqual({
+      parent: 8,
+      child: 3,
+      lambdaVal: null,
+      childSize: 1
+    });
+
+    const restored = CondensedTree.fromJSON(json);
+    expect(restored.rows).toEqual(tree.rows);
+    expect(restored.numPoints).toBe(6);
+  });
+
+  test("should handle an empty tree", () => {
+    const empty = new CondensedTree([], 0);
+    expect(empty.clusters()).toEqual([]);
+    expect(empty.leaves()).toEqual([]);
+    expect(empty.toJSON()).toEqual({ numPoints: 0, rows: [] });
+  });
+});
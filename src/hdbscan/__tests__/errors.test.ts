@@ -0,0 +1,30 @@
+import {
+  HDBSCANError,
+  InvalidInputError,
+  InvalidParameterError,
+  NotFittedError,
+  UnsupportedOperationError
+} from "../errors";
+
+describe("errors", () => {
+  test("should be told apart by class and name", () => {
+    const errors = [
+      new InvalidInputError("bad row"),
+      new InvalidParameterError("alpha", "bad alpha"),
+      new NotFittedError("not fitted"),
+      new UnsupportedOperationError("not supported")
+    ];
+
+    errors.forEach((error) => {
+      expect(error).toBeInstanceOf(Error);
+      expect(error).toBeInstanceOf(HDBSCANError);
+      expect(error.name).toBe(error.constructor.name);
+    });
+    expect(errors[1]).toMatchObject({
+      name: "InvalidParameterError",
+      parameter: "alpha",
+      message: "bad alpha"
+    });
+    expect(String(errors[0])).toBe("InvalidInputError: bad row");
+  });
+});
@@ -0,0 +1,36 @@
+import { CondensedTree } from "../condensedTree";
+import { outlierScores } from "../glosh";
+
+describe("outlierScores", () => {
+  test("should score points against the deepest lambda below their cluster", () => {
+    const tree = new CondensedTree(
+      [
+        { parent: 6, child: 5, lambdaVal: 0.2, childSize: 1 },
+        { parent: 6, child: 7, lambdaVal: 0.5, childSize: 2 },
+        { parent: 6, child: 8, lambdaVal: 0.5, childSize: 3 },
+        { parent: 7, child: 0, lambdaVal: 2, childSize: 1 },
+        { parent: 7, child: 1, lambdaVal: 4, childSize: 1 },
+        { parent: 8, child: 2, lambdaVal: 1, childSize: 1 },
+        { parent: 8, child: 3, lambdaVal: 1, childSize: 1 },
+        { parent: 8, child: 4, lambdaVal: 1, childSize: 1 }
+      ],
+      6
+    );
+
+    // point 5 left the root, whose descendants reach lambda 4
+    expect(outlierScores(tree)).toEqual([0.5, 0, 0, 0, 0, 0.95]);
+  });
+
+  test("should score duplicates 0 and the points around them 1", () => {
+    const tree = new CondensedTree(
+      [
+        { parent: 3, child: 0, lambdaVal: 1, childSize: 1 },
+        { parent: 3, child: 1, lambdaVal: 2, childSize: 1 },
+        { parent: 3, child: 2, lambdaVal: Infinity, childSize: 1 }
+      ],
+      3
+    );
+
+    expect(outlierScores(tree)).toEqual([1, 1, 0]);
+  });
+});
@@ -0,0 +1,62 @@
+import { SpanningTree } from "../boruvka";
+import { matchLabels, repairSpanningTree } from "../incremental";
+
+const toEdges = ({ from, to, weights }: SpanningTree) =>
+  Array.from(weights, (weight, i) => [from[i], to[i], weight]);
+
+describe("repairSpanningTree", () => {
+  // points on a line
+  const positions = [0, 1, 3, 6, 2.5];
+  const weight = (a: number, b: number) =>
+    Math.abs(positions[a] - positions[b]);
+
+  test("should connect a new vertex through its cheapest edges", () => {
+    const tree: SpanningTree = {
+      from: Int32Array.from([0, 1, 2]),
+      to: Int32Array.from([1, 2, 3]),
+      weights: Float64Array.from([1, 2, 3])
+    };
+
+    // 2.5 splits the 1-3 edge
+    expect(toEdges(repairSpanningTree(5, tree, [4], weight))).toEqual([
+      [4, 2, 0.5],
+      [0, 1, 1],
+      [4, 1, 1.5],
+      [2, 3, 3]
+    ]);
+  });
+
+  test("should drop old edges of affected vertices that got cheaper links", () => {
+    const tree: SpanningTree = {
+      from: Int32Array.from([0, 1, 2]),
+      to: Int32Array.from([1, 2, 3]),
+      weights: Float64Array.from([1, 5, 3])
+    };
+
+    // the stale 1-2 weight is replaced once vertex 2 is affected
+    expect(toEdges(repairSpanningTree(4, tree, [2], weight))).toEqual([
+      [0, 1, 1],
+      [2, 1, 2],
+      [2, 3, 3]
+    ]);
+  });
+});
+
+describe("matchLabels", () => {
+  test("should keep labels where clusters overlap", () => {
+    // the old clusters come back in the other order, plus a new one
+    expect(matchLabels([0, 0, 1, 1, -1], [1, 1, 0, 0, 2, 2], 3)).toEqual([
+      1, 0, 2
+    ]);
+  });
+
+  test("should give the larger overlap the old label", () => {
+    // old cluster 0 split in two, the bigger half keeps its label
+    expect(matchLabels([0, 0, 0, 1, 1], [0, 1, 1, 2, 2], 3)).toEqual([2, 0, 1]);
+  });
+
+  test("should hand out free labels when clusters disappear", () => {
+    expect(matchLabels([0, 1, 2], [-1, -1, 0], 1)).toEqual([0]);
+    expect(matchLabels([0, 1, 1], [0, 0, 0], 1)).toEqual([0]);
+  });
+});
@@ -1,4 +1,18 @@
-import { HDBSCAN } from "../core";
+import {
+  ClusterSelectionMethod,
+  HDBSCAN,
+  HDBSCANJSON,
+  HDBSCANParams,
+  validityIndex
+} from "../core";
+import {
+  InvalidInputError,
+  InvalidParameterError,
+  NotFittedError,
+  UnsupportedOperationError
+} from "../errors";
+import { LogFields, Logger, LogLevel } from "../logger";
+import { Metric } from "../metrics";
 
 const debugMode = true;
 describe("HDBSCAN", () => {
@@ -173,4 +187,1380 @@ describe("HDBSCAN", () => {
     expect(hdbscan.labels_).toHaveLength(data.length);
     expect(new Set(hdbscan.labels_).size).toBeGreaterThan(1);
   });
+
+  test("should give the same clustering for every vector metric", () => {
+    const data = [
+      [1, 1],
+      [1.5, 1],
+      [1, 1.5],
+      [1.2, 1.1],
+      [5, 5],
+      [5.65, 4.87],
+      [5.12, 5.59],
+      [4.9, 5.6],
+      [3, 3]
+    ];
+    const metrics = [
+      "euclidean",
+      "sqeuclidean",
+      "manhattan",
+      "chebyshev",
+      "minkowski",
+      (a: number[], b: number[]) => Math.hypot(a[0] - b[0], a[1] - b[1])
+    ] as const;
+
+    const results = metrics.map((metric) =>
+      new HDBSCAN({ minClusterSize: 3, minSamples: 2, metric, p: 3 }).fit(data)
+    );
+
+    expect(new Set(results[0]).size).toBeGreaterThan(1);
+    results.forEach((labels) => expect(labels).toEqual(results[0]));
+  });
+
+  test("should cluster by direction with the cosine metric", () => {
+    const data = [
+      [1, 0.1],
+      [2, 0.25],
+      [10, 1.1],
+      [5, 0.4],
+      [0.1, 1],
+      [0.2, 3],
+      [1, 10],
+      [0.3, 5]
+    ];
+
+    const hdbscan = new HDBSCAN({
+      minClusterSize: 3,
+      minSamples: 2,
+      metric: "cosine"
+    });
+    const labels = hdbscan.fit(data);
+
+    expect(new Set(labels.slice(0, 4)).size).toBe(1);
+    expect(new Set(labels.slice(4)).size).toBe(1);
+    expect(labels[0]).not.toBe(labels[4]);
+  });
+
+  test("should reject invalid metric parameters", () => {
+    expect(() => new HDBSCAN({ metric: "minkowski", p: 0 })).toThrow();
+    expect(
+      () => new HDBSCAN({ metric: "unknown" as unknown as Metric })
+    ).toThrow();
+  });
+
+  test("should cluster a precomputed distance matrix", () => {
+    const data = [
+      [1, 1],
+      [1.5, 1],
+      [1, 1.5],
+      [1.2, 1.1],
+      [5, 5],
+      [5.65, 4.87],
+      [5.12, 5.59],
+      [4.9, 5.6],
+      [3, 3]
+    ];
+    const matrix = data.map((a) =>
+      data.map((b) => Math.hypot(a[0] - b[0], a[1] - b[1]))
+    );
+
+    const fromVectors = new HDBSCAN({ minClusterSize: 3, minSamples: 2 }).fit(
+      data
+    );
+    const fromMatrix = new HDBSCAN({
+      minClusterSize: 3,
+      minSamples: 2,
+      metric: "precomputed"
+    }).fit(matrix);
+
+    expect(fromMatrix).toEqual(fromVectors);
+  });
+
+  test("should reject invalid precomputed distance matrices", () => {
+    const hdbscan = new HDBSCAN({ minClusterSize: 2, metric: "precomputed" });
+
+    expect(() =>
+      hdbscan.fit([
+        [0, 1, 2],
+        [1, 0, 3]
+      ])
+    ).toThrow(/square/);
+    expect(() =>
+      hdbscan.fit([
+        [0, 1, 2],
+        [1, 0, 3],
+        [2, 4, 0]
+      ])
+    ).toThrow(/symmetric/);
+    expect(() =>
+      hdbscan.fit([
+        [0, -1],
+        [-1, 0]
+      ])
+    ).toThrow(/non-negative/);
+    expect(() =>
+      hdbscan.fit([
+        [1, 2],
+        [2, 0]
+      ])
+    ).toThrow(/zero diagonal/);
+  });
+
+  test("should give the same labels with every MST algorithm", () => {
+    const data: number[][] = [];
+    for (let i = 0; i < 60; i++) {
+      const center = (i % 3) * 10;
+      data.push([center + Math.sin(i) * 2, center + Math.cos(i * 1.3) * 2]);
+    }
+
+    const algorithms = [
+      "generic",
+      "prims",
+      "prims_kdtree",
+      "prims_balltree",
+      "boruvka",
+      "boruvka_kdtree",
+      "boruvka_balltree"
+    ] as const;
+    const results = algorithms.map((algorithm) =>
+      new HDBSCAN({ minClusterSize: 5, algorithm, leafSize: 4 }).fit(data)
+    );
+
+    expect(new Set(results[0]).size).toBe(3);
+    results.forEach((labels) => expect(labels).toEqual(results[0]));
+  });
+
+  test("should keep custom metrics off the ball tree unless asked", () => {
+    const data = Array.from({ length: 60 }, (_, i) => [
+      (i % 3) * 10 + Math.sin(i) * 2,
+      Math.cos(i * 1.3) * 2
+    ]);
+    // squared distances break the triangle inequality a ball tree prunes by
+    const metric = (a: ArrayLike<number>, b: ArrayLike<number>) =>
+      (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2;
+    const generic = new HDBSCAN({ minClusterSize: 5, metric });
+    generic.fit(data);
+
+    for (const algorithm of ["prims", "boruvka"] as const) {
+      const model = new HDBSCAN({ minClusterSize: 5, metric, algorithm });
+      model.fit(data);
+      expect(model.minimumSpanningTree_).toEqual(generic.minimumSpanningTree_);
+      expect(model.labels_).toEqual(generic.labels_);
+    }
+  });
+
+  test("should reject algorithms the metric cannot use", () => {
+    expect(
+      () => new HDBSCAN({ metric: "cosine", algorithm: "prims_kdtree" })
+    ).toThrow();
+    expect(
+      () => new HDBSCAN({ metric: "sqeuclidean", algorithm: "prims_balltree" })
+    ).toThrow();
+    expect(
+      () => new HDBSCAN({ metric: "precomputed", algorithm: "prims" })
+    ).toThrow();
+    expect(
+      () => new HDBSCAN({ metric: "cosine", algorithm: "boruvka" })
+    ).toThrow();
+    expect(() => new HDBSCAN({ leafSize: 0 })).toThrow();
+  });
+
+  test("should be more conservative with larger alpha", () => {
+    const data: number[][] = [];
+    for (let i = 0; i < 30; i++) {
+      data.push([Math.cos(i) * (i % 7) * 0.3, Math.sin(i) * (i % 5) * 0.3]);
+      data.push([
+        8 + Math.cos(i * 2) * (i % 6) * 0.3,
+        Math.sin(i * 2) * (i % 4) * 0.3
+      ]);
+    }
+    // uniform background noise
+    for (let i = 0; i < 15; i++) {
+      data.push([((i * 37) % 15) - 3, ((i * 11) % 9) - 4]);
+    }
+
+    const noiseCounts = [0.5, 1, 4].map((alpha) => {
+      const labels = new HDBSCAN({ minClusterSize: 5, alpha }).fit(data);
+      expect(new Set(labels.filter((l) => l !== -1)).size).toBe(2);
+      return labels.filter((l) => l === -1).length;
+    });
+
+    expect(noiseCounts[0]).toBeLessThanOrEqual(noiseCounts[1]);
+    expect(noiseCounts[1]).toBeLessThanOrEqual(noiseCounts[2]);
+    expect(noiseCounts[0]).toBeLessThan(noiseCounts[2]);
+  });
+
+  test("should give the same labels for alpha with every MST algorithm", () => {
+    const data: number[][] = [];
+    for (let i = 0; i < 45; i++) {
+      const center = (i % 3) * 6;
+      data.push([center + Math.sin(i) * 2, Math.cos(i * 1.7) * 2]);
+    }
+
+    const results = (
+      ["generic", "prims_kdtree", "boruvka_kdtree"] as const
+    ).map((algorithm) =>
+      new HDBSCAN({ minClusterSize: 5, alpha: 1.5, algorithm }).fit(data)
+    );
+
+    results.forEach((labels) => expect(labels).toEqual(results[0]));
+  });
+
+  test("should reject invalid alpha values", () => {
+    expect(() => new HDBSCAN({ alpha: 0 })).toThrow();
+    expect(() => new HDBSCAN({ alpha: -1 })).toThrow();
+    expect(() => new HDBSCAN({ alpha: NaN })).toThrow();
+    expect(() => new HDBSCAN({ alpha: Infinity })).toThrow();
+  });
+
+  test("should pick finer clusters with leaf selection", () => {
+    // two well separated groups, each made of two nearby blobs
+    const data: number[][] = [];
+    [
+      [0, 0],
+      [3, 0],
+      [30, 0],
+      [33, 0]
+    ].forEach(([x, y]) => {
+      for (let i = 0; i < 12; i++) {
+        const radius = 0.4 * (1 + (i % 3));
+        data.push([x + Math.cos(i) * radius, y + Math.sin(i) * radius]);
+      }
+    });
+
+    const eom = new HDBSCAN({ minClusterSize: 5 }).fit(data);
+    const leaf = new HDBSCAN({
+      minClusterSize: 5,
+      clusterSelectionMethod: "leaf"
+    }).fit(data);
+
+    expect(new Set(eom).size).toBe(2);
+    expect(new Set(leaf).size).toBe(4);
+    // every leaf cluster sits inside a single eom cluster
+    for (let label = 0; label < 4; label++) {
+      const members = leaf
+        .map((l, i) => (l === label ? eom[i] : null))
+        .filter((l) => l !== null);
+      expect(new Set(members).size).toBe(1);
+    }
+  });
+
+  test("should not select the root as a leaf cluster", () => {
+    const data = [
+      [1, 1],
+      [1.1, 1],
+      [1, 1.1],
+      [1.1, 1.1],
+      [1.05, 1.05]
+    ];
+
+    const hdbscan = new HDBSCAN({
+      minClusterSize: 3,
+      clusterSelectionMethod: "leaf"
+    });
+
+    expect(hdbscan.fit(data)).toEqual([-1, -1, -1, -1, -1]);
+    expect(
+      () =>
+        new HDBSCAN({
+          clusterSelectionMethod: "mean" as unknown as ClusterSelectionMethod
+        })
+    ).toThrow();
+  });
+
+  test("should merge clusters born below clusterSelectionEpsilon", () => {
+    const data: number[][] = [];
+    [
+      [0, 0],
+      [3, 0],
+      [30, 0],
+      [33, 0]
+    ].forEach(([x, y]) => {
+      for (let i = 0; i < 12; i++) {
+        const radius = 0.4 * (1 + (i % 3));
+        data.push([x + Math.cos(i) * radius, y + Math.sin(i) * radius]);
+      }
+    });
+
+    (["eom", "leaf"] as const).forEach((clusterSelectionMethod) => {
+      const fine = new HDBSCAN({
+        minClusterSize: 3,
+        clusterSelectionMethod
+      }).fit(data);
+      const merged = new HDBSCAN({
+        minClusterSize: 3,
+        clusterSelectionMethod,
+        clusterSelectionEpsilon: 5
+      }).fit(data);
+      // a tiny epsilon leaves the selection untouched
+      const untouched = new HDBSCAN({
+        minClusterSize: 3,
+        clusterSelectionMethod,
+        clusterSelectionEpsilon: 0.01
+      }).fit(data);
+
+      expect(new Set(fine).size).toBe(4);
+      expect(untouched).toEqual(fine);
+      expect(merged).toEqual([
+        ...new Array(24).fill(0),
+        ...new Array(24).fill(1)
+      ]);
+    });
+  });
+
+  test("should keep the root out of epsilon merging", () => {
+    const data = [
+      [0, 0],
+      [0.1, 0],
+      [0, 0.1],
+      [5, 5],
+      [5.1, 5],
+      [5, 5.1]
+    ];
+
+    const labels = new HDBSCAN({
+      minClusterSize: 3,
+      minSamples: 2,
+      clusterSelectionEpsilon: 1000
+    }).fit(data);
+
+    expect(labels).toEqual([0, 0, 0, 1, 1, 1]);
+    expect(() => new HDBSCAN({ clusterSelectionEpsilon: -1 })).toThrow();
+  });
+
+  test("should expose the condensed tree", () => {
+    const data = [
+      [1, 1],
+      [1.5, 1],
+      [1, 1.5],
+      [1.2, 1.1],
+      [5, 5],
+      [5.65, 4.87],
+      [5.12, 5.59],
+      [4.9, 5.6],
+      [20, -20]
+    ];
+
+    const hdbscan = new HDBSCAN({ minClusterSize: 3, minSamples: 2 });
+    hdbscan.fit(data);
+    const tree = hdbscan.condensedTree_;
+
+    expect(tree.numPoints).toBe(data.length);
+    // every point leaves the tree exactly once
+    const pointRows = tree.rows.filter((row) => !tree.isCluster(row.child));
+    expect(pointRows.map((row) => row.child).sort()).toEqual(
+      data.map((_, i) => i)
+    );
+    // the noise point dropped straight out of the root
+    expect(hdbscan.labels_[8]).toBe(-1);
+    expect(tree.parent(8)).toBe(tree.root);
+
+    tree.clusters().forEach((cluster) => {
+      const points = tree.clusterPoints(cluster);
+      if (cluster !== tree.root) {
+        expect(tree.row(cluster)!.childSize).toBe(points.length);
+      }
+      // children never leave before their parent cluster was born
+      tree.children(cluster).forEach((row) => {
+        const birth = tree.row(cluster)?.lambdaVal ?? 0;
+        expect(row.lambdaVal).toBeGreaterThanOrEqual(birth);
+      });
+    });
+
+    // clustered points sit below the cluster they are labelled with
+    const groups = tree
+      .childClusters(tree.root)
+      .map((cluster) => tree.clusterPoints(cluster).sort());
+    expect(groups.sort((a, b) => a[0] - b[0])).toEqual([
+      [0, 1, 2, 3],
+      [4, 5, 6, 7]
+    ]);
+
+    expect(JSON.parse(JSON.stringify(tree)).rows).toHaveLength(
+      tree.rows.length
+    );
+  });
+
+  test("should expose a single linkage tree consistent with the MST", () => {
+    const data: number[][] = [];
+    for (let i = 0; i < 40; i++) {
+      const center = (i % 4) * 5;
+      data.push([center + Math.sin(i * 2.1), Math.cos(i * 0.7) + (i % 2)]);
+    }
+
+    const hdbscan = new HDBSCAN({ minClusterSize: 4 });
+    hdbscan.fit(data);
+    const { matrix } = hdbscan.singleLinkageTree_;
+    const mst = hdbscan.minimumSpanningTree_;
+
+    expect(matrix).toHaveLength(data.length - 1);
+    expect(mst).toHaveLength(data.length - 1);
+
+    // replay the MST edges in ascending order with a union-find
+    const n = data.length;
+    const parent = Array.from({ length: 2 * n - 1 }, (_, i) => i);
+    const find = (x: number): number =>
+      parent[x] === x ? x : (parent[x] = find(parent[x]));
+    const sizes = new Array(2 * n - 1).fill(1);
+    [...mst]
+      .sort((a, b) => a[2] - b[2])
+      .forEach(([a, b, w], i) => {
+        const [left, right] = [find(a), find(b)];
+        const [row] = [matrix[i]];
+        expect(new Set([row[0], row[1]])).toEqual(new Set([left, right]));
+        expect(row[2]).toBe(w);
+        sizes[n + i] = sizes[left] + sizes[right];
+        expect(row[3]).toBe(sizes[n + i]);
+        parent[left] = parent[right] = n + i;
+      });
+
+    // merge heights never decrease and the last merge holds every point
+    matrix.slice(1).forEach((row, i) => {
+      expect(row[2]).toBeGreaterThanOrEqual(matrix[i][2]);
+    });
+    expect(matrix[matrix.length - 1][3]).toBe(n);
+
+    // cutting at the top merge joins everything, just below it does not
+    const top = matrix[matrix.length - 1][2];
+    expect(new Set(hdbscan.singleLinkageTree_.cut(top))).toEqual(new Set([0]));
+    expect(
+      new Set(hdbscan.singleLinkageTree_.cut(top * 0.99)).size
+    ).toBeGreaterThan(1);
+  });
+
+  test("should predict labels for new points", () => {
+    const data: number[][] = [];
+    for (let i = 0; i < 60; i++) {
+      const c = i % 3;
+      data.push([
+        c * 8 + Math.sin(i * 1.7) * 1.5,
+        (c % 2) * 5 + Math.cos(i * 0.9) * 1.5
+      ]);
+    }
+    data.push([4, 12]); // noise
+
+    (["generic", "best"] as const).forEach((algorithm) => {
+      const hdbscan = new HDBSCAN({ minClusterSize: 5, algorithm });
+      hdbscan.fit(data);
+
+      // the fitted points land where fit put them
+      const refit = hdbscan.approximatePredict(data);
+      expect(refit.labels).toEqual(hdbscan.labels_);
+      refit.probabilities.forEach((p, i) => {
+        expect(p).toBeGreaterThanOrEqual(0);
+        expect(p).toBeLessThanOrEqual(1);
+        expect(p === 0).toBe(hdbscan.labels_[i] === -1);
+      });
+
+      const { labels, probabilities } = hdbscan.approximatePredict([
+        [0, 0],
+        [8, 5],
+        [16, 0],
+        [100, 100]
+      ]);
+      expect(labels.slice(0, 3)).toEqual([
+        hdbscan.labels_[0],
+        hdbscan.labels_[1],
+        hdbscan.labels_[2]
+      ]);
+      expect(labels[3]).toBe(-1);
+      expect(probabilities[3]).toBe(0);
+    });
+  });
+
+  test("should reject predictions the model cannot make", () => {
+    expect(() => new HDBSCAN().approximatePredict([[1, 2]])).toThrow(/fit/);
+
+    const hdbscan = new HDBSCAN({ minClusterSize: 2 });
+    hdbscan.fit([
+      [0, 0],
+      [0, 1],
+      [5, 5],
+      [5, 6]
+    ]);
+    expect(() => hdbscan.approximatePredict([[1, 2, 3]])).toThrow(/dimensions/);
+
+    const precomputed = new HDBSCAN({
+      minClusterSize: 2,
+      metric: "precomputed"
+    });
+    precomputed.fit([
+      [0, 1, 5],
+      [1, 0, 5],
+      [5, 5, 0]
+    ]);
+    expect(() => precomputed.approximatePredict([[0, 1, 5]])).toThrow(
+      /precomputed/
+    );
+  });
+
+  test("should give soft memberships for every point", () => {
+    const data: number[][] = [];
+    for (let i = 0; i < 60; i++) {
+      const c = i % 3;
+      data.push([
+        c * 8 + Math.sin(i * 1.7) * 1.5,
+        (c % 2) * 5 + Math.cos(i * 0.9) * 1.5
+      ]);
+    }
+    data.push([4, 12]); // noise, closest to the first two clusters
+
+    const hdbscan = new HDBSCAN({ minClusterSize: 5 });
+    hdbscan.fit(data);
+    const vectors = hdbscan.allPointsMembershipVectors();
+
+    expect(vectors).toHaveLength(data.length);
+    vectors.forEach((vector, i) => {
+      expect(vector).toHaveLength(3);
+      const total = vector.reduce((sum, v) => sum + v, 0);
+      expect(total).toBeLessThanOrEqual(1 + 1e-9);
+      if (hdbscan.labels_[i] !== -1) {
+        expect(vector.indexOf(Math.max(...vector))).toBe(hdbscan.labels_[i]);
+      }
+    });
+
+    const noise = vectors[60];
+    expect(hdbscan.labels_[60]).toBe(-1);
+    expect(noise.every((v) => v > 0)).toBe(true);
+    expect(Math.min(noise[0], noise[1])).toBeGreaterThan(noise[2]);
+
+    expect(() => new HDBSCAN().allPointsMembershipVectors()).toThrow(/fit/);
+  });
+
+  test("should score outliers", () => {
+    const data: number[][] = [];
+    for (let i = 0; i < 40; i++) {
+      data.push([Math.sin(i * 1.7) * 1.5, Math.cos(i * 0.9) * 1.5]);
+    }
+    data.push([3, 3], [20, -20]);
+
+    const hdbscan = new HDBSCAN({ minClusterSize: 5 });
+    hdbscan.fit(data);
+
+    expect(hdbscan.outlierScores_).toHaveLength(data.length);
+    hdbscan.outlierScores_.forEach((score) => {
+      expect(score).toBeGreaterThanOrEqual(0);
+      expect(score).toBeLessThanOrEqual(1);
+    });
+    const [near, far] = hdbscan.outlierScores_.slice(40);
+    expect(far).toBeGreaterThan(near);
+    expect(far).toBeGreaterThan(0.9);
+    expect(Math.max(...hdbscan.outlierScores_.slice(0, 40))).toBeLessThan(far);
+
+    // duplicates leave at an infinite lambda, the lone point still stands out
+    const duplicates = [
+      ...new Array(6).fill([0, 0]),
+      ...new Array(6).fill([10, 10]),
+      [5, 5]
+    ];
+    const withDuplicates = new HDBSCAN({ minClusterSize: 5 });
+    withDuplicates.fit(duplicates);
+    expect(withDuplicates.outlierScores_).toEqual([
+      ...new Array(12).fill(0),
+      1
+    ]);
+  });
+
+  test("should keep its own copy of the fitted rows", () => {
+    const data: number[][] = [];
+    for (let i = 0; i < 40; i++) {
+      const c = i % 2;
+      data.push([c * 10 + Math.sin(i * 1.7) * 1.5, Math.cos(i * 0.9) * 1.5]);
+    }
+
+    const hdbscan = new HDBSCAN({ minClusterSize: 5 });
+    hdbscan.fit(data);
+    const queries = [
+      [0, 0],
+      [10, 0],
+      [50, 50]
+    ];
+    const predicted = hdbscan.approximatePredict(queries);
+    const exemplars = hdbscan.exemplars_;
+    const centroid = hdbscan.weightedClusterCentroid(0);
+    const json = JSON.stringify(hdbscan.toJSON());
+
+    data.forEach((row) => row.fill(1000));
+    data.push([1000, 1000]);
+
+    expect(hdbscan.approximatePredict(queries)).toEqual(predicted);
+    expect(hdbscan.exemplars_).toEqual(exemplars);
+    expect(hdbscan.weightedClusterCentroid(0)).toEqual(centroid);
+    expect(JSON.stringify(hdbscan.toJSON())).toBe(json);
+  });
+
+  test("should describe clusters by exemplars, centroids and medoids", () => {
+    const data: number[][] = [];
+    for (let i = 0; i < 40; i++) {
+      const c = i % 2;
+      data.push([c * 10 + Math.sin(i * 1.7) * 1.5, Math.cos(i * 0.9) * 1.5]);
+    }
+
+    const indexOf = (row: number[]) =>
+      data.findIndex((point) => point.every((v, k) => v === row[k]));
+
+    const hdbscan = new HDBSCAN({ minClusterSize: 5 });
+    hdbscan.fit(data);
+
+    expect(hdbscan.exemplars_).toHaveLength(2);
+    hdbscan.exemplars_.forEach((exemplars, label) => {
+      expect(exemplars.length).toBeGreaterThan(0);
+      exemplars.forEach((exemplar) => {
+        const index = indexOf(exemplar);
+        expect(hdbscan.labels_[index]).toBe(label);
+        expect(hdbscan.probabilities_[index]).toBe(1);
+      });
+    });
+
+    [0, 1].forEach((label) => {
+      const center = hdbscan.labels_.indexOf(label) % 2 === 0 ? 0 : 10;
+      const centroid = hdbscan.weightedClusterCentroid(label);
+      expect(centroid).toHaveLength(2);
+      expect(Math.abs(centroid[0] - center)).toBeLessThan(1);
+      expect(Math.abs(centroid[1])).toBeLessThan(1);
+
+      const medoid = hdbscan.weightedClusterMedoid(label);
+      expect(hdbscan.labels_[indexOf(medoid)]).toBe(label);
+      expect(Math.abs(medoid[0] - center)).toBeLessThan(1.5);
+    });
+
+    expect(() => hdbscan.weightedClusterCentroid(-1)).toThrow(/noise/);
+    expect(() => hdbscan.weightedClusterMedoid(2)).toThrow(/label/);
+    expect(() => new HDBSCAN().weightedClusterCentroid(0)).toThrow(/fit/);
+    const noClusters = new HDBSCAN();
+    noClusters.fit([
+      [0, 0],
+      [1, 1]
+    ]);
+    expect(() => noClusters.weightedClusterMedoid(0)).toThrow(
+      /The model found no clusters/
+    );
+  });
+
+  test("should save and load fitted models", () => {
+    const data: number[][] = [];
+    for (let i = 0; i < 60; i++) {
+      const c = i % 3;
+      data.push([
+        c * 8 + Math.sin(i * 1.7) * 1.5,
+        (c % 2) * 5 + Math.cos(i * 0.9) * 1.5
+      ]);
+    }
+    data.push([4, 12]);
+
+    const hdbscan = new HDBSCAN({ minClusterSize: 5, metric: "manhattan" });
+    hdbscan.fit(data);
+    const json = JSON.parse(JSON.stringify(hdbscan));
+    expect(json.version).toBe(2);
+    expect(json.params.metric).toBe("manhattan");
+
+    const loaded = HDBSCAN.fromJSON(json);
+    expect(loaded.labels_).toEqual(hdbscan.labels_);
+    expect(loaded.probabilities_).toEqual(hdbscan.probabilities_);
+    expect(loaded.minimumSpanningTree_).toEqual(hdbscan.minimumSpanningTree_);
+    expect(loaded.condensedTree_.rows).toEqual(hdbscan.condensedTree_.rows);
+    expect(loaded.singleLinkageTree_.matrix).toEqual(
+      hdbscan.singleLinkageTree_.matrix
+    );
+    expect(loaded.outlierScores_).toEqual(hdbscan.outlierScores_);
+    expect(loaded.exemplars_).toEqual(hdbscan.exemplars_);
+
+    const points = [
+      [0, 0],
+      [8, 5],
+      [100, 100]
+    ];
+    expect(loaded.approximatePredict(points)).toEqual(
+      hdbscan.approximatePredict(points)
+    );
+    expect(loaded.allPointsMembershipVectors()).toEqual(
+      hdbscan.allPointsMembershipVectors()
+    );
+  });
+
+  test("should reject models it cannot save or load", () => {
+    const json = new HDBSCAN().toJSON();
+    expect(() => HDBSCAN.fromJSON({ ...json, version: 99 })).toThrow(
+      /version 99/
+    );
+    expect(() => HDBSCAN.fromJSON(json)).not.toThrow();
+
+    // payloads with missing or mismatched fields name the field at fault
+    const fitted = new HDBSCAN({ minClusterSize: 3 });
+    fitted.fit(
+      Array.from({ length: 12 }, (_, i) => [(i % 2) * 10 + i / 12, i % 3])
+    );
+    const saved = JSON.parse(JSON.stringify(fitted)) as HDBSCANJSON;
+    const load = (changes: object) => () =>
+      HDBSCAN.fromJSON({ ...saved, ...changes } as HDBSCANJSON);
+    expect(() =>
+      HDBSCAN.fromJSON({ version: 2 } as unknown as HDBSCANJSON)
+    ).toThrow(
+      new InvalidInputError("Cannot load the model: params is missing")
+    );
+    expect(load({ data: undefined })).toThrow(/data is missing/);
+    expect(load({ labels: saved.labels.slice(1) })).toThrow(
+      /labels has 11 entries, expected 12 for 12 points/
+    );
+    expect(load({ labels: [...saved.labels.slice(1), 7] })).toThrow(
+      /labels\[11\] is not -1 or a label below 2/
+    );
+    expect(load({ probabilities: undefined })).toThrow(
+      /probabilities is missing/
+    );
+    expect(load({ minimumSpanningTree: [[0, 1, 1]] })).toThrow(
+      /minimumSpanningTree has 1 entries, expected 11/
+    );
+    expect(load({ condensedTree: undefined })).toThrow(
+      /condensedTree is missing/
+    );
+    expect(
+      load({ condensedTree: { numPoints: 12, rows: [{ parent: 12 }] } })
+    ).toThrow(/condensedTree.rows\[0\] is not a row/);
+    expect(load({ selectedClusterIds: [12, 99] })).toThrow(
+      /selectedClusterIds\[1\] is 99, which is not a cluster/
+    );
+    expect(load({})).not.toThrow();
+
+    const custom = new HDBSCAN({ metric: (a, b) => Math.abs(a[0] - b[0]) });
+    expect(() => custom.toJSON()).toThrow(/custom metric/);
+  });
+
+  test("should fit across worker threads with the same result", async () => {
+    const data: number[][] = [];
+    for (let i = 0; i < 90; i++) {
+      const c = i % 3;
+      data.push([
+        c * 8 + Math.sin(i * 1.7) * 1.5,
+        (c % 2) * 5 + Math.cos(i * 0.9) * 1.5
+      ]);
+    }
+    data.push([4, 12]);
+    const matrix = data.map((a) =>
+      data.map((b) => Math.hypot(a[0] - b[0], a[1] - b[1]))
+    );
+
+    const cases: [HDBSCANParams, number[][]][] = [
+      [{ algorithm: "generic" }, data],
+      [{ algorithm: "boruvka_kdtree" }, data],
+      [{ algorithm: "prims_balltree", metric: "manhattan" }, data],
+      [{ metric: "precomputed" }, matrix],
+      [
+        { metric: (a, b) => Math.abs(a[0] - b[0]) + Math.abs(a[1] - b[1]) },
+        data
+      ]
+    ];
+    for (const [params, input] of cases) {
+      const sync = new HDBSCAN({ minClusterSize: 5, ...params });
+      sync.fit(input);
+      const parallel = new HDBSCAN({ minClusterSize: 5, ...params });
+      const labels = await parallel.fitAsync(input, { workers: 2 });
+
+      expect(labels).toEqual(sync.labels_);
+      expect(parallel.labels_).toEqual(sync.labels_);
+      expect(parallel.probabilities_).toEqual(sync.probabilities_);
+      expect(parallel.minimumSpanningTree_).toEqual(sync.minimumSpanningTree_);
+    }
+
+    await expect(new HDBSCAN().fitAsync(data, { workers: 0 })).rejects.toThrow(
+      /workers/
+    );
+    // workers load the TypeScript sources through ts-node under jest
+  }, 60000);
+
+  test("should fit flat typed arrays like arrays of rows", async () => {
+    const flat = new Float32Array(90 * 2);
+    for (let i = 0; i < 90; i++) {
+      const c = i % 3;
+      flat[2 * i] = c * 8 + Math.sin(i * 1.7) * 1.5;
+      flat[2 * i + 1] = (c % 2) * 5 + Math.cos(i * 0.9) * 1.5;
+    }
+    const rows: number[][] = [];
+    for (let i = 0; i < 90; i++) {
+      rows.push([flat[2 * i], flat[2 * i + 1]]);
+    }
+
+    for (const algorithm of ["generic", "best"] as const) {
+      const fromRows = new HDBSCAN({ minClusterSize: 5, algorithm });
+      fromRows.fit(rows);
+      const fromFlat = new HDBSCAN({ minClusterSize: 5, algorithm });
+      fromFlat.fit(flat, 2);
+
+      expect(fromFlat.labels_).toEqual(fromRows.labels_);
+      expect(fromFlat.probabilities_).toEqual(fromRows.probabilities_);
+      expect(fromFlat.exemplars_).toEqual(fromRows.exemplars_);
+      expect(Array.isArray(fromFlat.weightedClusterMedoid(0))).toBe(true);
+      expect(
+        fromFlat.approximatePredict(new Float64Array([0, 0, 8, 5]))
+      ).toEqual(
+        fromRows.approximatePredict([
+          [0, 0],
+          [8, 5]
+        ])
+      );
+      expect(HDBSCAN.fromJSON(fromFlat.toJSON()).labels_).toEqual(
+        fromRows.labels_
+      );
+
+      const parallel = new HDBSCAN({ minClusterSize: 5, algorithm });
+      await parallel.fitAsync(flat, { workers: 2, dimensions: 2 });
+      expect(parallel.labels_).toEqual(fromRows.labels_);
+    }
+
+    expect(() => new HDBSCAN().fit(flat)).toThrow(/dimensions/);
+  }, 60000);
+
+  test("should cluster sparse rows like their dense equivalent", async () => {
+    // three topics over a 1000-term vocabulary, a handful of terms each
+    const dims = 1000;
+    const sparse: { indices: number[]; values: number[] }[] = [];
+    const dense: number[][] = [];
+    for (let i = 0; i < 60; i++) {
+      const topic = i % 3;
+      const indices = [topic * 100, topic * 100 + 1, topic * 100 + 2, 900 + i];
+      const values = [
+        1 + Math.sin(i),
+        1 + Math.cos(i * 1.3),
+        1 + Math.sin(i * 0.7),
+        0.2 + (i % 5) * 0.05
+      ];
+      sparse.push({ indices, values });
+      const row = new Array(dims).fill(0);
+      indices.forEach((index, k) => (row[index] = values[k]));
+      dense.push(row);
+    }
+    const csr = {
+      indptr: [0, ...sparse.map((_, i) => 4 * (i + 1))],
+      indices: sparse.flatMap((row) => row.indices),
+      values: sparse.flatMap((row) => row.values)
+    };
+
+    for (const metric of ["euclidean", "cosine"] as const) {
+      const fromDense = new HDBSCAN({ minClusterSize: 5, metric });
+      fromDense.fit(dense);
+      const fromSparse = new HDBSCAN({ minClusterSize: 5, metric });
+      fromSparse.fit(sparse);
+
+      expect(new Set(fromSparse.labels_).size).toBeGreaterThan(1);
+      expect(fromSparse.labels_).toEqual(fromDense.labels_);
+      expect(fromSparse.probabilities_).toEqual(fromDense.probabilities_);
+      expect(new HDBSCAN({ minClusterSize: 5, metric }).fit(csr)).toEqual(
+        fromDense.labels_
+      );
+      expect(
+        await new HDBSCAN({ minClusterSize: 5, metric }).fitAsync(sparse, {
+          workers: 2
+        })
+      ).toEqual(fromDense.labels_);
+
+      expect(fromSparse.approximatePredict(sparse.slice(0, 3)).labels).toEqual(
+        fromDense.approximatePredict(dense.slice(0, 3)).labels
+      );
+      expect(fromSparse.allPointsMembershipVectors()).toEqual(
+        fromDense.allPointsMembershipVectors()
+      );
+      expect(HDBSCAN.fromJSON(fromSparse.toJSON()).labels_).toEqual(
+        fromDense.labels_
+      );
+      expect(() => fromSparse.approximatePredict(dense.slice(0, 1))).toThrow(
+        /dense points/
+      );
+    }
+
+    expect(() =>
+      new HDBSCAN({ algorithm: "boruvka_kdtree" }).fit(sparse)
+    ).toThrow(/sparse input/);
+    expect(() => new HDBSCAN({ metric: "manhattan" }).fit(sparse)).toThrow(
+      /euclidean and cosine/
+    );
+  }, 60000);
+
+  test("should add points with partialFit like a full fit", () => {
+    // blobs around three centers; the third only shows up in the second batch
+    const centers = [
+      [0, 0],
+      [10, 0],
+      [5, 9]
+    ];
+    const blob = (center: number, count: number, seed: number) =>
+      Array.from({ length: count }, (_, i) => [
+        centers[center][0] + Math.sin((i + seed) * 12.9898) * 1.5,
+        centers[center][1] + Math.cos((i + seed) * 78.233) * 1.5
+      ]);
+    const first = [...blob(0, 20, 0), ...blob(1, 20, 100)];
+    const second = [
+      ...blob(1, 5, 200),
+      ...blob(2, 20, 300),
+      ...blob(0, 5, 400)
+    ];
+    const params = { minClusterSize: 5, minSamples: 4 };
+
+    const incremental = new HDBSCAN(params);
+    const before = incremental.fit(first).slice();
+    const after = incremental.partialFit(second);
+    const full = new HDBSCAN(params);
+    full.fit([...first, ...second]);
+
+    const totalWeight = (model: HDBSCAN) =>
+      model.minimumSpanningTree_.reduce((sum, [, , weight]) => sum + weight, 0);
+    expect(totalWeight(incremental)).toBeCloseTo(totalWeight(full), 10);
+    expect(incremental.probabilities_).toEqual(full.probabilities_);
+    // same partition as the full fit, up to renaming
+    const rename = new Map<number, number>();
+    after.forEach((label, i) => {
+      if (!rename.has(label)) rename.set(label, full.labels_[i]);
+      expect(full.labels_[i]).toBe(rename.get(label));
+    });
+    expect(new Set(after).size).toBe(new Set(full.labels_).size);
+
+    // the two original clusters keep their labels, the new one gets the next
+    expect(new Set(before.filter((label) => label !== -1))).toEqual(
+      new Set([0, 1])
+    );
+    before.forEach((label, i) => {
+      if (label !== -1 && after[i] !== -1) expect(after[i]).toBe(label);
+    });
+    expect(after.slice(45, 65).filter((label) => label === 2).length).toBe(20);
+    expect(incremental.approximatePredict([[5, 9]]).labels).toEqual([2]);
+
+    // a flat typed array takes the fitted dimensionality
+    const typed = new HDBSCAN(params);
+    typed.fit(first);
+    expect(typed.partialFit(Float64Array.from(second.flat()))).toEqual(after);
+
+    expect(new HDBSCAN(params).partialFit(first)).toEqual(before);
+    expect(() => incremental.partialFit([[1, 2, 3]])).toThrow(/dimensions/);
+    expect(() =>
+      new HDBSCAN({ metric: "precomputed" }).partialFit([[0]])
+    ).toThrow(/precomputed/);
+  });
+
+  test("should keep partialFit of a few points cheaper than a fit", () => {
+    const points = Array.from({ length: 400 }, (_, i) => [
+      (i % 4) * 20 + Math.sin(i * 12.9898) * 3,
+      Math.cos(i * 78.233) * 3
+    ]);
+    const added = [
+      [1, 1],
+      [41, -1],
+      [70, 0]
+    ];
+    let calls = 0;
+    const metric = (a: ArrayLike<number>, b: ArrayLike<number>) => {
+      calls++;
+      return Math.hypot(a[0] - b[0], a[1] - b[1]);
+    };
+    const params = { minClusterSize: 10, minSamples: 5 };
+
+    const incremental = new HDBSCAN({ ...params, metric });
+    incremental.fit(points);
+    calls = 0;
+    incremental.partialFit(added);
+    const partialCalls = calls;
+    calls = 0;
+    const full = new HDBSCAN({ ...params, metric });
+    full.fit([...points, ...added]);
+
+    expect(partialCalls).toBeLessThan(calls / 4);
+    expect(incremental.labels_).toEqual(full.labels_);
+    expect(incremental.probabilities_).toEqual(full.probabilities_);
+
+    // the KD-tree repair gives the same tree as well
+    const tree = new HDBSCAN(params);
+    tree.fit(points);
+    tree.partialFit(added);
+    const treeFull = new HDBSCAN(params);
+    treeFull.fit([...points, ...added]);
+    expect(tree.labels_).toEqual(treeFull.labels_);
+    expect(tree.probabilities_).toEqual(treeFull.probabilities_);
+  });
+
+  test("should score clusterings with DBCV", () => {
+    const data = [[0], [1], [2], [10], [11], [12], [30]];
+    const labels = [0, 0, 0, 1, 1, 1, -1];
+
+    // all-points core distances are 4/3 at the ends of each cluster and 1 in
+    // the middle, so both spanning trees have 4/3 edges, and the middles are
+    // 10 apart
+    const result = validityIndex(data, labels);
+    expect(result.clusters[0]).toBeCloseTo(13 / 15, 12);
+    expect(result.clusters[1]).toBeCloseTo(13 / 15, 12);
+    expect(result.score).toBeCloseTo((6 / 7) * (13 / 15), 12);
+
+    // a worse split of the same data scores lower
+    expect(validityIndex(data, [0, 0, 1, 1, 1, 1, -1]).score).toBeLessThan(
+      result.score
+    );
+    // nothing to separate a single cluster from
+    expect(validityIndex(data, [0, 0, 0, 0, 0, 0, -1])).toEqual({
+      score: 0,
+      clusters: [0]
+    });
+
+    const precomputed = data.map(([a]) => data.map(([b]) => Math.abs(a - b)));
+    expect(
+      validityIndex(precomputed, labels, {
+        metric: "precomputed",
+        dimensions: 1
+      }).clusters
+    ).toEqual(result.clusters);
+    expect(
+      validityIndex(
+        data.map(([x]) => ({ indices: [0], values: [x + 1] })),
+        labels
+      ).score
+    ).toBeCloseTo(result.score, 12);
+
+    const hdbscan = new HDBSCAN({ minClusterSize: 3, minSamples: 2 });
+    expect(hdbscan.fit(data)).toEqual(labels);
+    expect(hdbscan.validityIndex()).toEqual(result);
+
+    expect(() => validityIndex(data, [0, 0])).toThrow(/2 labels for 7/);
+    expect(() =>
+      validityIndex(precomputed, labels, { metric: "precomputed" })
+    ).toThrow(/number of dimensions/);
+    expect(() => new HDBSCAN().validityIndex()).toThrow(/fitted model/);
+  });
+
+  test("should describe the persistence of each cluster", () => {
+    // a tight blob and a loose one
+    const data = [
+      ...Array.from({ length: 10 }, (_, i) => [
+        Math.sin(i * 12.9898) * 0.2,
+        Math.cos(i * 78.233) * 0.2
+      ]),
+      ...Array.from({ length: 10 }, (_, i) => [
+        20 + Math.sin(i * 12.9898) * 4,
+        Math.cos(i * 78.233) * 4
+      ])
+    ];
+    const hdbscan = new HDBSCAN({ minClusterSize: 5, minSamples: 3 });
+    const labels = hdbscan.fit(data);
+    const tree = hdbscan.condensedTree_;
+    const [tight, loose] = hdbscan.clusterInfo_;
+
+    expect(hdbscan.clusterInfo_).toHaveLength(2);
+    hdbscan.clusterInfo_.forEach((info, label) => {
+      const points = labels
+        .map((l, i) => (l === label ? i : -1))
+        .filter((i) => i !== -1);
+      const cluster = tree.parent(points[0])!;
+      expect(info.label).toBe(label);
+      expect(info.size).toBe(points.length);
+      expect(info.birthLambda).toBe(tree.row(cluster)!.lambdaVal);
+      expect(info.deathLambda).toBeGreaterThan(info.birthLambda);
+      expect(info.stability).toBeCloseTo(tree.stability(cluster), 12);
+      expect(info.meanProbability).toBeCloseTo(
+        points.reduce((sum, i) => sum + hdbscan.probabilities_[i], 0) /
+          points.length,
+        12
+      );
+      expect(info.persistence).toBeGreaterThan(0);
+      expect(info.persistence).toBeLessThanOrEqual(1);
+    });
+    expect(hdbscan.clusterPersistence_).toEqual([
+      tight.persistence,
+      loose.persistence
+    ]);
+    expect(tight.persistence).toBeGreaterThan(loose.persistence);
+    expect(HDBSCAN.fromJSON(hdbscan.toJSON()).clusterInfo_).toEqual(
+      hdbscan.clusterInfo_
+    );
+  });
+
+  test("should select the root only when a single cluster is allowed", () => {
+    const blob = Array.from({ length: 30 }, (_, i) => [
+      Math.sin(i * 12.9898) * 2,
+      Math.cos(i * 78.233) * 2
+    ]);
+
+    expect(new HDBSCAN({ minClusterSize: 5 }).fit(blob)).toEqual(
+      new Array(30).fill(-1)
+    );
+    const single = new HDBSCAN({ minClusterSize: 5, allowSingleCluster: true });
+    expect(single.fit(blob)).toEqual(new Array(30).fill(0));
+    expect(
+      new HDBSCAN({
+        minClusterSize: 5,
+        allowSingleCluster: true,
+        clusterSelectionMethod: "leaf"
+      }).fit(blob)
+    ).toEqual(new Array(30).fill(0));
+    // the deprecated flag still works
+    expect(
+      new HDBSCAN({ minClusterSize: 5, shouldSkipRootCluster: false }).fit(blob)
+    ).toEqual(new Array(30).fill(0));
+    expect(HDBSCAN.fromJSON(single.toJSON()).fit(blob)).toEqual(
+      new Array(30).fill(0)
+    );
+  });
+
+  test("should split clusters larger than maxClusterSize", () => {
+    // two pairs of rings of 10 points
+    const ring = (x: number) =>
+      Array.from({ length: 10 }, (_, i) => [
+        x + Math.cos(i * 0.6283) * 0.5,
+        Math.sin(i * 0.6283) * 0.5
+      ]);
+    const pairs = (gap: number) => [
+      ...ring(0),
+      ...ring(gap),
+      ...ring(30),
+      ...ring(30 + gap)
+    ];
+    const halves = [...new Array(20).fill(0), ...new Array(20).fill(1)];
+    const quarters = [0, 1, 2, 3].flatMap((label) => new Array(10).fill(label));
+
+    expect(new HDBSCAN({ minClusterSize: 5 }).fit(pairs(2))).toEqual(halves);
+    const capped = new HDBSCAN({ minClusterSize: 5, maxClusterSize: 15 });
+    expect(capped.fit(pairs(2))).toEqual(quarters);
+    // epsilon merging stops below the cap too
+    expect(
+      new HDBSCAN({ minClusterSize: 5, clusterSelectionEpsilon: 5 }).fit(
+        pairs(3)
+      )
+    ).toEqual(halves);
+    expect(
+      new HDBSCAN({
+        minClusterSize: 5,
+        clusterSelectionEpsilon: 5,
+        maxClusterSize: 15
+      }).fit(pairs(3))
+    ).toEqual(quarters);
+    // clusters that never split cannot be kept under the cap
+    expect(
+      new HDBSCAN({ minClusterSize: 5, maxClusterSize: 8 }).fit(pairs(2))
+    ).toEqual(new Array(40).fill(-1));
+
+    expect(HDBSCAN.fromJSON(capped.toJSON()).fit(pairs(2))).toEqual(quarters);
+    expect(() => new HDBSCAN({ maxClusterSize: 0 })).toThrow(/maxClusterSize/);
+  });
+
+  test("should report progress and cancel fits", async () => {
+    const data = Array.from({ length: 200 }, (_, i) => [
+      (i % 4) * 10 + Math.sin(i * 12.9898),
+      Math.cos(i * 78.233)
+    ]);
+    const stages = ["coreDistances", "mst", "hierarchy", "condense", "extract"];
+
+    for (const algorithm of ["generic", "boruvka_kdtree"] as const) {
+      const reports: { stage: string; percent: number }[] = [];
+      new HDBSCAN({
+        algorithm,
+        onProgress: (progress) => reports.push(progress)
+      }).fit(data);
+
+      expect(Array.from(new Set(reports.map(({ stage }) => stage)))).toEqual(
+        stages
+      );
+      reports.slice(1).forEach(({ percent }, i) => {
+        expect(percent).toBeGreaterThanOrEqual(reports[i].percent);
+      });
+      expect(reports[reports.length - 1]).toEqual({
+        stage: "extract",
+        percent: 100
+      });
+      expect(reports.length).toBeGreaterThan(20);
+    }
+
+    // cancelled from the callback once the spanning tree is underway
+    const controller = new AbortController();
+    const hdbscan = new HDBSCAN({
+      onProgress: ({ stage }) => {
+        if (stage === "mst") controller.abort();
+      }
+    });
+    hdbscan.fit(data.slice(0, 20));
+    await expect(
+      hdbscan.fitAsync(data, { workers: 1, signal: controller.signal })
+    ).rejects.toMatchObject({ name: "AbortError" });
+    expect(hdbscan.labels_).toEqual([]);
+    expect(hdbscan.condensedTree_.rows).toEqual([]);
+    expect(() => hdbscan.approximatePredict([[0, 0]])).toThrow(/fitted model/);
+
+    // cancelled while the workers compute distances
+    const running = new AbortController();
+    const fit = new HDBSCAN({ algorithm: "generic" }).fitAsync(data, {
+      workers: 2,
+      signal: running.signal
+    });
+    setTimeout(() => running.abort(), 10);
+    await expect(fit).rejects.toMatchObject({ name: "AbortError" });
+
+    // a custom metric fits on the main thread, which still lets a timer in
+    // partway through the distances
+    const many = Array.from({ length: 1500 }, (_, i) => [
+      Math.sin(i * 12.9898) * 10,
+      Math.cos(i * 78.233) * 10
+    ]);
+    let calls = 0;
+    const metric = (a: ArrayLike<number>, b: ArrayLike<number>) => {
+      calls++;
+      return Math.hypot(a[0] - b[0], a[1] - b[1]);
+    };
+    const timed = new AbortController();
+    const onMainThread = new HDBSCAN({ metric }).fitAsync(many, {
+      signal: timed.signal
+    });
+    setTimeout(() => timed.abort(), 5);
+    await expect(onMainThread).rejects.toMatchObject({ name: "AbortError" });
+    expect(calls).toBeGreaterThan(0);
+    expect(calls).toBeLessThan((1500 * 1499) / 2);
+
+    await expect(
+      new HDBSCAN().fitAsync(data, { signal: AbortSignal.abort() })
+    ).rejects.toMatchObject({ name: "AbortError" });
+  }, 60000);
+
+  test("should log through an injected logger and time the stages", () => {
+    const data = Array.from({ length: 60 }, (_, i) => [
+      (i % 3) * 10 + Math.sin(i * 12.9898),
+      Math.cos(i * 78.233)
+    ]);
+    const messages: { level: LogLevel; message: string; fields?: LogFields }[] =
+      [];
+    const recorder = (debug: boolean): Logger => {
+      const method =
+        (level: LogLevel) => (message: string, fields?: LogFields) =>
+          messages.push({ level, message, fields });
+      return {
+        debug: method("debug"),
+        info: method("info"),
+        warn: method("warn"),
+        error: method("error"),
+        isLevelEnabled: (level) => debug || level !== "debug"
+      };
+    };
+
+    const hdbscan = new HDBSCAN({
+      algorithm: "generic",
+      logger: recorder(true)
+    });
+    hdbscan.fit(data);
+    const tree = messages.find(
+      ({ message }) => message === "Sorted spanning tree edges"
+    );
+    expect((tree?.fields?.edges as unknown[]).length).toBe(59);
+    expect(messages.filter(({ level }) => level === "info")).toEqual([
+      {
+        level: "info",
+        message: "Fit finished",
+        fields: {
+          points: 60,
+          clusters: 3,
+          noise: hdbscan.labels_.filter((label) => label === -1).length,
+          timings: hdbscan.timings_
+        }
+      }
+    ]);
+
+    const { timings_ } = hdbscan;
+    const stages = ["coreDistances", "mst", "hierarchy", "condense", "extract"];
+    expect(Object.keys(timings_).sort()).toEqual([...stages, "total"].sort());
+    stages.forEach((stage) =>
+      expect(timings_[stage as keyof typeof timings_]).toBeGreaterThanOrEqual(0)
+    );
+    expect(timings_.total).toBeGreaterThanOrEqual(
+      stages.reduce(
+        (sum, stage) => sum + timings_[stage as keyof typeof timings_],
+        0
+      ) - 1e-6
+    );
+
+    // with debug off the payloads are never built or passed on
+    messages.length = 0;
+    new HDBSCAN({ algorithm: "generic", logger: recorder(false) }).fit(data);
+    expect(messages.map(({ message }) => message)).toEqual(["Fit finished"]);
+  });
+
+  test("should throw typed errors for bad input and usage", () => {
+    expect(() => new HDBSCAN().fit([[0, 0], [1], [2, 2]])).toThrow(
+      /Row 1 has 1 dimensions but row 0 has 2/
+    );
+    expect(() =>
+      new HDBSCAN().fit([
+        [0, 0],
+        [NaN, 1]
+      ])
+    ).toThrow(InvalidInputError);
+    expect(() =>
+      new HDBSCAN({ metric: "precomputed" }).fit([
+        [0, Infinity],
+        [Infinity, 0]
+      ])
+    ).toThrow(InvalidInputError);
+
+    const parameterOf = (create: () => unknown) => {
+      try {
+        create();
+      } catch (error) {
+        expect(error).toBeInstanceOf(InvalidParameterError);
+        return (error as InvalidParameterError).parameter;
+      }
+    };
+    expect(parameterOf(() => new HDBSCAN({ minSamples: 2.5 }))).toBe(
+      "minSamples"
+    );
+    expect(parameterOf(() => new HDBSCAN({ minClusterSize: NaN }))).toBe(
+      "minClusterSize"
+    );
+    expect(
+      parameterOf(() => new HDBSCAN({ metric: "minkowski", p: 0.5 }))
+    ).toBe("p");
+    expect(
+      parameterOf(() =>
+        new HDBSCAN({ algorithm: "prims_kdtree" }).fit([
+          { indices: [0], values: [1] }
+        ])
+      )
+    ).toBe("algorithm");
+
+    expect(() => new HDBSCAN().approximatePredict([[0, 0]])).toThrow(
+      NotFittedError
+    );
+    expect(() =>
+      new HDBSCAN({ metric: "precomputed" }).partialFit([[0]])
+    ).toThrow(UnsupportedOperationError);
+    expect(() => validityIndex([[0], [1]], [0, 0.5])).toThrow(/Label 1 is 0.5/);
+  });
+
+  test("should handle empty, single-point and identical data", () => {
+    for (const allowSingleCluster of [false, true]) {
+      const empty = new HDBSCAN({ allowSingleCluster });
+      expect(empty.fit([])).toEqual([]);
+      expect(empty.probabilities_).toEqual([]);
+      expect(empty.condensedTree_.rows).toEqual([]);
+      expect(empty.partialFit([[1, 1]])).toEqual([-1]);
+    }
+    expect(() => new HDBSCAN().validityIndex()).toThrow(NotFittedError);
+
+    const single = new HDBSCAN();
+    expect(single.fit([[1, 2]])).toEqual([-1]);
+    expect(single.approximatePredict([[1, 2]]).labels).toEqual([-1]);
+    const lone = new HDBSCAN({ minClusterSize: 1, allowSingleCluster: true });
+    expect(lone.fit([[1, 2]])).toEqual([0]);
+    expect(lone.probabilities_).toEqual([1]);
+
+    // no density differences: one cluster if allowed, else all noise
+    const same = Array.from({ length: 20 }, () => [3, 3]);
+    for (const algorithm of ["generic", "boruvka_kdtree", "prims_kdtree"]) {
+      const params = { algorithm } as HDBSCANParams;
+      expect(new HDBSCAN(params).fit(same)).toEqual(new Array(20).fill(-1));
+      const blob = new HDBSCAN({ ...params, allowSingleCluster: true });
+      expect(blob.fit(same)).toEqual(new Array(20).fill(0));
+      expect(blob.probabilities_).toEqual(new Array(20).fill(1));
+      expect(blob.outlierScores_).toEqual(new Array(20).fill(0));
+    }
+
+    // two groups of duplicates are two clusters; fewer points than
+    // minSamples still fit
+    const duplicates = [...Array(8).fill([0, 0]), ...Array(8).fill([9, 9])];
+    expect(new HDBSCAN().fit(duplicates)).toEqual([
+      ...new Array(8).fill(0),
+      ...new Array(8).fill(1)
+    ]);
+    expect(new HDBSCAN({ minSamples: 10 }).fit([[0], [1], [2]])).toEqual([
+      -1, -1, -1
+    ]);
+  });
 });
@@ -0,0 +1,66 @@
+import { InvalidInputError, InvalidParameterError } from "../errors";
+import { rowToArray, toRows } from "../input";
+
+describe("toRows", () => {
+  test("should split flat buffers into views over the same memory", () => {
+    const buffer = new Float32Array([1, 2, 3, 4, 5, 6]);
+    const rows = toRows(buffer, 3);
+
+    expect(rows).toHaveLength(2);
+    expect(Array.from(rows[1])).toEqual([4, 5, 6]);
+    buffer[3] = 40;
+    expect(rows[1][0]).toBe(40);
+  });
+
+  test("should pass arrays of rows through", () => {
+    const data = [
+      [1, 2],
+      [3, 4]
+    ];
+    expect(toRows(data)).toBe(data);
+    expect(() => toRows(data, 3)).toThrow(/Row 0 has 2 dimensions/);
+  });
+
+  test("should reject ragged rows and values that are not finite", () => {
+    expect(() => toRows([[1, 2], [3]])).toThrow(
+      new InvalidInputError(
+        "Row 1 has 1 dimensions but row 0 has 2; every row needs the same number of values"
+      )
+    );
+    expect(() =>
+      toRows([
+        [1, 2],
+        [NaN, 4]
+      ])
+    ).toThrow(/Row 1 has NaN at/);
+    expect(() => toRows([[1, Infinity]])).toThrow(InvalidInputError);
+    expect(() => toRows([[1, "2"]] as unknown as number[][])).toThrow(
+      /Row 0 has "2" at position 1/
+    );
+    expect(() => toRows([[1, 2], null] as unknown as number[][])).toThrow(
+      /Row 1 is not an array/
+    );
+    expect(() => toRows([[1, 2], , [3, 4]] as unknown as number[][])).toThrow(
+      new InvalidInputError("Row 1 is missing")
+    );
+    expect(() => toRows([[], []])).toThrow(/at least one value/);
+    expect(() => toRows(new Float32Array([1, NaN]), 1)).toThrow(
+      /Row 1 has NaN/
+    );
+    expect(toRows([])).toEqual([]);
+  });
+
+  test("should reject flat buffers it cannot split", () => {
+    const buffer = new Float64Array(6);
+    expect(() => toRows(buffer)).toThrow(InvalidParameterError);
+    expect(() => toRows(buffer)).toThrow(/dimensions is required/);
+    expect(() => toRows(buffer, 0)).toThrow(/positive integer/);
+    expect(() => toRows(buffer, 4)).toThrow(/cannot hold rows/);
+  });
+
+  test("should copy typed rows into plain arrays", () => {
+    const row = [1, 2];
+    expect(rowToArray(row)).toBe(row);
+    expect(rowToArray(new Float64Array([1, 2]))).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,39 @@
+import { consoleLogger } from "../logger";
+
+describe("consoleLogger", () => {
+  const fakeConsole = () => {
+    const lines: unknown[][] = [];
+    const print = (...args: unknown[]) => lines.push(args);
+    return {
+      lines,
+      output: { log: print, info: print, warn: print, error: print }
+    };
+  };
+
+  test("should log the given level and above", () => {
+    const { lines, output } = fakeConsole();
+    const logger = consoleLogger("warn", output);
+
+    logger.debug("hidden");
+    logger.info("hidden");
+    logger.warn("Slow fit", { ms: 1200 });
+    logger.error("Failed");
+
+    expect(lines).toEqual([
+      ["[HDBSCAN]", "Slow fit", { ms: 1200 }],
+      ["[HDBSCAN]", "Failed"]
+    ]);
+    expect(logger.isLevelEnabled!("debug")).toBe(false);
+    expect(logger.isLevelEnabled!("error")).toBe(true);
+  });
+
+  test("should default to info", () => {
+    const { lines, output } = fakeConsole();
+    const logger = consoleLogger(undefined, output);
+
+    logger.debug("hidden");
+    logger.info("Fit finished");
+
+    expect(lines).toEqual([["[HDBSCAN]", "Fit finished"]]);
+  });
+});
@@ -0,0 +1,44 @@
+import {
+  chebyshevDistance,
+  cosineDistance,
+  euclideanDistance,
+  manhattanDistance,
+  Metric,
+  minkowskiDistance,
+  resolveMetric,
+  squaredEuclideanDistance
+} from "../metrics";
+
+describe("metrics", () => {
+  const a = [0, 0, 0];
+  const b = [1, 2, 2];
+
+  test("should compute the built-in distances", () => {
+    expect(euclideanDistance(a, b)).toBeCloseTo(3);
+    expect(squaredEuclideanDistance(a, b)).toBeCloseTo(9);
+    expect(manhattanDistance(a, b)).toBeCloseTo(5);
+    expect(chebyshevDistance(a, b)).toBeCloseTo(2);
+    expect(minkowskiDistance(a, b, 1)).toBeCloseTo(5);
+    expect(minkowskiDistance(a, b, 2)).toBeCloseTo(3);
+    expect(minkowskiDistance(a, b, 3)).toBeCloseTo(17 ** (1 / 3));
+  });
+
+  test("should compute cosine distance", () => {
+    expect(cosineDistance([1, 0], [2, 0])).toBeCloseTo(0);
+    expect(cosineDistance([1, 0], [0, 3])).toBeCloseTo(1);
+    expect(cosineDistance([1, 0], [-1, 0])).toBeCloseTo(2);
+    expect(cosineDistance([0, 0], [1, 1])).toBe(1);
+  });
+
+  test("should resolve metric names and custom functions", () => {
+    const custom = (x: number[], y: number[]) => Math.abs(x[0] - y[0]);
+    expect(resolveMetric(custom)).toBe(custom);
+    expect(resolveMetric("manhattan")).toBe(manhattanDistance);
+    expect(resolveMetric("minkowski", 1)(a, b)).toBeCloseTo(5);
+  });
+
+  test("should reject invalid metric configuration", () => {
+    expect(() => resolveMetric("minkowski", 0.5)).toThrow();
+    expect(() => resolveMetric("hamming" as unknown as Metric)).toThrow();
+  });
+});
@@ -0,0 +1,34 @@
+import { splitRows } from "../parallel";
+
+describe("splitRows", () => {
+  test("should give every worker about as many rows", () => {
+    expect(splitRows(10, 3)).toEqual([
+      [0, 4],
+      [4, 7],
+      [7, 10]
+    ]);
+  });
+
+  test("should give every worker about as many pairs", () => {
+    const blocks = splitRows(100, 4, "pairs");
+    const pairs = blocks.map(([start, end]) => {
+      let count = 0;
+      for (let row = start; row < end; row++) count += 100 - 1 - row;
+      return count;
+    });
+
+    expect(blocks[0][0]).toBe(0);
+    expect(blocks[blocks.length - 1][1]).toBe(100);
+    expect(blocks.length).toBe(4);
+    // 4950 pairs in all, so about 1238 each
+    pairs.forEach((count) => expect(Math.abs(count - 1238)).toBeLessThan(100));
+  });
+
+  test("should never make more blocks than rows or workers", () => {
+    expect(splitRows(2, 8)).toEqual([
+      [0, 1],
+      [1, 2]
+    ]);
+    expect(splitRows(5, 2, "pairs").length).toBeLessThanOrEqual(2);
+  });
+});
@@ -0,0 +1,74 @@
+import { CondensedTree } from "../condensedTree";
+import {
+  clusterExemplars,
+  clusterMaxLambda,
+  findClusterAndProbability,
+  membershipVector,
+  mergeHeight
+} from "../prediction";
+
+describe("prediction", () => {
+  // root 6 splits at lambda 0.5 into clusters 7 and 8; point 5 drops out of
+  // the root before the split
+  const tree = new CondensedTree(
+    [
+      { parent: 6, child: 5, lambdaVal: 0.2, childSize: 1 },
+      { parent: 6, child: 7, lambdaVal: 0.5, childSize: 2 },
+      { parent: 6, child: 8, lambdaVal: 0.5, childSize: 3 },
+      { parent: 7, child: 0, lambdaVal: 2, childSize: 1 },
+      { parent: 7, child: 1, lambdaVal: 4, childSize: 1 },
+      { parent: 8, child: 2, lambdaVal: 1, childSize: 1 },
+      { parent: 8, child: 3, lambdaVal: 1, childSize: 1 },
+      { parent: 8, child: 4, lambdaVal: 1, childSize: 1 }
+    ],
+    6
+  );
+  const selected = [7, 8];
+
+  test("should find the largest lambda of a cluster", () => {
+    expect(clusterMaxLambda(tree, 7)).toBe(4);
+    expect(clusterMaxLambda(tree, 6)).toBe(0.5);
+  });
+
+  test("should join the neighbor's cluster", () => {
+    expect(findClusterAndProbability(tree, selected, 1, 3)).toEqual([0, 0.75]);
+    // capped at the lambda where the neighbor itself leaves
+    expect(findClusterAndProbability(tree, selected, 0, 3)).toEqual([0, 0.5]);
+    expect(findClusterAndProbability(tree, selected, 2, 10)).toEqual([1, 1]);
+  });
+
+  test("should be noise when connecting before the cluster is born", () => {
+    expect(findClusterAndProbability(tree, selected, 0, 0.3)).toEqual([-1, 0]);
+    expect(findClusterAndProbability(tree, selected, 5, 1)).toEqual([-1, 0]);
+  });
+
+  test("should pick the most persistent points of each leaf as exemplars", () => {
+    expect(clusterExemplars(tree, 7)).toEqual([1]);
+    expect(clusterExemplars(tree, 8)).toEqual([2, 3, 4]);
+    expect(clusterExemplars(tree, 6)).toEqual([1, 2, 3, 4]);
+  });
+
+  test("should find where a point and a cluster stop being connected", () => {
+    // inside the cluster, or the cluster is inside the point's
+    expect(mergeHeight(tree, 7, 2, 7)).toBe(2);
+    expect(mergeHeight(tree, 6, 0.2, 8)).toBe(0.2);
+    // separate branches meet where they split
+    expect(mergeHeight(tree, 7, 2, 8)).toBe(0.5);
+  });
+
+  test("should weigh memberships by exemplar distance and tree position", () => {
+    const maxLambdas = new Map(
+      tree.clusters().map((c) => [c, clusterMaxLambda(tree, c)])
+    );
+    const vector = membershipVector(tree, selected, maxLambdas, 0, [1, 4]);
+    expect(vector[0]).toBeGreaterThan(vector[1]);
+    expect(vector[0] + vector[1]).toBeCloseTo(0.5);
+
+    // noise leans towards the closer cluster, with a small total
+    const noise = membershipVector(tree, selected, maxLambdas, 5, [4, 1]);
+    expect(noise[1]).toBeGreaterThan(noise[0]);
+    expect(noise[0] + noise[1]).toBeCloseTo(0.05);
+
+    expect(membershipVector(tree, [], maxLambdas, 0, [])).toEqual([]);
+  });
+});
@@ -0,0 +1,73 @@
+import { abortError, FitProgress, ProgressReporter } from "../progress";
+
+describe("ProgressReporter", () => {
+  test("should report each whole percent of the fit once", () => {
+    const reports: FitProgress[] = [];
+    const progress = new ProgressReporter((report) => reports.push(report));
+
+    for (let i = 0; i < 1000; i++) {
+      progress.report("coreDistances", i / 1000);
+    }
+    progress.report("mst", 0);
+    progress.report("mst", 0.5);
+    progress.report("hierarchy", 0);
+    progress.finish();
+
+    // the core distance stage covers 0 to 45 percent
+    expect(reports.filter(({ stage }) => stage === "coreDistances")).toEqual(
+      Array.from({ length: 45 }, (_, percent) => ({
+        stage: "coreDistances",
+        percent
+      }))
+    );
+    expect(reports.slice(45)).toEqual([
+      { stage: "mst", percent: 45 },
+      { stage: "mst", percent: 67 },
+      { stage: "hierarchy", percent: 90 },
+      { stage: "extract", percent: 100 }
+    ]);
+  });
+
+  test("should stop at the next report once aborted", () => {
+    const controller = new AbortController();
+    const progress = new ProgressReporter(undefined, controller.signal);
+    progress.report("coreDistances", 0.5);
+
+    controller.abort();
+    expect(() => progress.report("coreDistances", 0.6)).toThrow(
+      expect.objectContaining({ name: "AbortError" })
+    );
+    expect(() => progress.throwIfAborted()).toThrow();
+  });
+
+  test("should prefer the reason the signal was aborted with", () => {
+    const controller = new AbortController();
+    const reason = new Error("user left");
+    controller.abort(reason);
+    expect(abortError(controller.signal)).toBe(reason);
+  });
+
+  test("should time each stage up to the next one", () => {
+    const progress = new ProgressReporter();
+    const wait = (ms: number) => {
+      const until = Date.now() + ms;
+      while (Date.now() < until);
+    };
+
+    wait(5); // setup counts toward the first stage
+    progress.report("coreDistances", 0);
+    wait(5);
+    progress.report("mst", 0);
+    wait(5);
+    progress.report("extract", 0);
+    const timings = progress.finish();
+
+    expect(timings.coreDistances).toBeGreaterThanOrEqual(9);
+    expect(timings.mst).toBeGreaterThanOrEqual(4);
+    expect(timings.hierarchy).toBe(0);
+    expect(timings.condense).toBe(0);
+    expect(timings.total).toBeGreaterThanOrEqual(
+      timings.coreDistances + timings.mst + timings.extract
+    );
+  });
+});
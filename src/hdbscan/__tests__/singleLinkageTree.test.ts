@@ -0,0 +1,33 @@
+import { SingleLinkageTree } from "../singleLinkageTree";
+
+describe("SingleLinkageTree", () => {
+  // points 0-1 merge at 1, 2-3 at 2, 4 joins 2-3 at 3, everything at 10
+  const tree = new SingleLinkageTree([
+    [0, 1, 1, 2],
+    [2, 3, 2, 2],
+    [4, 6, 3, 3],
+    [5, 7, 10, 5]
+  ]);
+
+  test("should infer the number of points", () => {
+    expect(tree.numPoints).toBe(5);
+  });
+
+  test("should cut at arbitrary heights", () => {
+    expect(tree.cut(0.5)).toEqual([0, 1, 2, 3, 4]);
+    expect(tree.cut(1)).toEqual([0, 0, 1, 2, 3]);
+    expect(tree.cut(2.5)).toEqual([0, 0, 1, 1, 2]);
+    expect(tree.cut(5)).toEqual([0, 0, 1, 1, 1]);
+    expect(tree.cut(10)).toEqual([0, 0, 0, 0, 0]);
+  });
+
+  test("should mark small groups as noise", () => {
+    expect(tree.cut(2.5, 2)).toEqual([0, 0, 1, 1, -1]);
+    expect(tree.cut(5, 3)).toEqual([-1, -1, 0, 0, 0]);
+  });
+
+  test("should serialise as the plain linkage matrix", () => {
+    expect(JSON.parse(JSON.stringify(tree))).toEqual(tree.matrix);
+    expect(new SingleLinkageTree([], 0).cut(1)).toEqual([]);
+  });
+});
@@ -0,0 +1,88 @@
+import { cosineDistance, euclideanDistance } from "../metrics";
+import {
+  isSparseInput,
+  resolveSparseMetric,
+  sparseCosineDistance,
+  sparseEuclideanDistance,
+  SparseVector,
+  toSparseRows
+} from "../sparse";
+
+function densify({ indices, values }: SparseVector, dims: number): number[] {
+  const dense = new Array(dims).fill(0);
+  for (let k = 0; k < indices.length; k++) {
+    dense[indices[k]] = values[k];
+  }
+  return dense;
+}
+
+describe("sparse", () => {
+  const rows: SparseVector[] = [
+    { indices: [0, 3, 7], values: [1, -2, 0.5] },
+    { indices: [3, 5], values: [4, 1] },
+    { indices: [], values: [] },
+    { indices: [9], values: [2] }
+  ];
+
+  test("should match the dense metrics", () => {
+    rows.forEach((a) =>
+      rows.forEach((b) => {
+        const [denseA, denseB] = [densify(a, 10), densify(b, 10)];
+        expect(sparseEuclideanDistance(a, b)).toBe(
+          euclideanDistance(denseA, denseB)
+        );
+        expect(sparseCosineDistance(a, b)).toBe(cosineDistance(denseA, denseB));
+      })
+    );
+  });
+
+  test("should split CSR matrices into rows", () => {
+    const csr = {
+      indptr: new Int32Array([0, 3, 5, 5, 6]),
+      indices: new Int32Array([0, 3, 7, 3, 5, 9]),
+      values: new Float64Array([1, -2, 0.5, 4, 1, 2])
+    };
+    const parsed = toSparseRows(csr);
+
+    expect(parsed).toHaveLength(4);
+    parsed.forEach((row, i) => {
+      expect(Array.from(row.indices)).toEqual(rows[i].indices);
+      expect(Array.from(row.values)).toEqual(rows[i].values);
+    });
+  });
+
+  test("should reject malformed sparse input", () => {
+    expect(() => toSparseRows([{ indices: [2, 1], values: [1, 1] }])).toThrow(
+      /ascending/
+    );
+    expect(() => toSparseRows([{ indices: [1], values: [] }])).toThrow(
+      /as many indices as values/
+    );
+    expect(() =>
+      toSparseRows({ indptr: [0, 2], indices: [0], values: [1] })
+    ).toThrow(/indptr/);
+    expect(() => toSparseRows([{ indices: [0, 1.5], values: [1, 1] }])).toThrow(
+      /non-negative integers/
+    );
+    expect(() =>
+      toSparseRows([
+        { indices: [0], values: [1] },
+        ,
+        { indices: [], values: [] }
+      ] as unknown as SparseVector[])
+    ).toThrow(/Sparse row 1 is missing/);
+    expect(() => toSparseRows([{ indices: [3], values: [NaN] }])).toThrow(
+      /NaN at index 3/
+    );
+    expect(() => resolveSparseMetric("manhattan")).toThrow(
+      /euclidean and cosine/
+    );
+  });
+
+  test("should recognise sparse input", () => {
+    expect(isSparseInput(rows)).toBe(true);
+    expect(isSparseInput({ indptr: [0], indices: [], values: [] })).toBe(true);
+    expect(isSparseInput([[1, 2]])).toBe(false);
+    expect(isSparseInput(new Float64Array(2))).toBe(false);
+  });
+});
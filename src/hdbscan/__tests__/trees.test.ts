@@ -0,0 +1,83 @@
+import { euclideanDistance, manhattanDistance } from "../metrics";
+import { BallTree, BruteForceIndex, KDTree } from "../trees";
+
+// Deterministic pseudo-random points so failures are reproducible
+function randomPoints(n: number, dims: number, seed = 42): number[][] {
+  let state = seed;
+  const random = () => {
+    state = (state * 16807) % 2147483647;
+    return state / 2147483647;
+  };
+  return Array.from({ length: n }, () =>
+    Array.from({ length: dims }, () => random() * 10)
+  );
+}
+
+function bruteForce(
+  data: number[][],
+  point: number[],
+  k: number,
+  distance: (a: number[], b: number[]) => number
+): number[] {
+  return data
+    .map((other) => distance(point, other))
+    .sort((a, b) => a - b)
+    .slice(0, k);
+}
+
+describe("spatial trees", () => {
+  const data = randomPoints(300, 3);
+
+  test.each([
+    ["KDTree", KDTree],
+    ["BallTree", BallTree]
+  ])("%s should match brute-force k-NN distances", (_, Tree) => {
+    [euclideanDistance, manhattanDistance].forEach((distance) => {
+      const tree = new Tree(data, distance, 10);
+      data.slice(0, 50).forEach((point) => {
+        const result = tree.query(point, 7);
+        expect(result.distances).toHaveLength(7);
+        result.distances.forEach((d, i) =>
+          expect(d).toBeCloseTo(bruteForce(data, point, 7, distance)[i])
+        );
+        result.indices.forEach((index, i) =>
+          expect(distance(point, data[index])).toBeCloseTo(result.distances[i])
+        );
+      });
+    });
+  });
+
+  test.each([
+    ["KDTree", new KDTree(data, euclideanDistance, 10)],
+    ["BallTree", new BallTree(data, euclideanDistance, 10)],
+    ["BruteForceIndex", new BruteForceIndex(data, euclideanDistance)]
+  ])("%s should find every point within a radius", (_, index) => {
+    data.slice(0, 50).forEach((point) => {
+      const expected = data
+        .map((other, i) => [i, euclideanDistance(point, other)])
+        .filter(([, distance]) => distance <= 2)
+        .sort(([, a], [, b]) => a - b);
+      const result = index.queryRadius(point, 2);
+      expect(result.distances).toEqual(expected.map(([, d]) => d));
+      expect(new Set(result.indices)).toEqual(
+        new Set(expected.map(([i]) => i))
+      );
+    });
+  });
+
+  test("should honour leafSize", () => {
+    const small = new KDTree(data, euclideanDistance, 5);
+    const large = new KDTree(data, euclideanDistance, 100);
+    expect(small.nodeCount).toBeGreaterThan(large.nodeCount);
+    expect(new KDTree(data, euclideanDistance, 300).nodeCount).toBe(1);
+    expect(() => new BallTree(data, euclideanDistance, 0)).toThrow();
+  });
+
+  test("should cap k at the number of points", () => {
+    const tree = new BallTree(data.slice(0, 3), euclideanDistance);
+    expect(tree.query([0, 0, 0], 10).indices).toHaveLength(3);
+    expect(new KDTree([], euclideanDistance).query([0, 0], 3).indices).toEqual(
+      []
+    );
+  });
+});
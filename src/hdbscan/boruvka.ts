@@ -0,0 +1,188 @@
+import { InvalidParameterError } from "./errors";
+import { DistanceFunction, Vector } from "./metrics";
+import { runSteps, Steps } from "./progress";
+import { BinarySpaceTree } from "./trees";
+
+// Edges of a spanning tree as parallel typed arrays, edge i joining from[i]
+// and to[i]
+export interface SpanningTree {
+  from: Int32Array;
+  to: Int32Array;
+  weights: Float64Array;
+}
+
+// Borůvka's algorithm over mutual reachability distances computed on the fly
+// from core distances. Every round each component finds its cheapest edge to
+// another component through a pruned tree search, so memory stays linear in
+// the number of points and no pairwise matrix is ever built. Direct distances
+// are divided by alpha, as in robust single linkage. onProgress gets the
+// share of edges found after every round.
+export function boruvkaMinimumSpanningTree(
+  tree: BinarySpaceTree,
+  data: Vector[],
+  coreDistances: ArrayLike<number>,
+  distance: DistanceFunction,
+  alpha: number = 1,
+  onProgress?: (fraction: number) => void
+): SpanningTree {
+  return runSteps(
+    boruvkaSpanningTreeSteps(
+      tree,
+      data,
+      coreDistances,
+      distance,
+      alpha,
+      onProgress
+    )
+  );
+}
+
+// The same, yielding after the search from each point
+export function* boruvkaSpanningTreeSteps(
+  tree: BinarySpaceTree,
+  data: Vector[],
+  coreDistances: ArrayLike<number>,
+  distance: DistanceFunction,
+  alpha: number = 1,
+  onProgress?: (fraction: number) => void
+): Steps<SpanningTree> {
+  const n = data.length;
+  const edges: SpanningTree = {
+    from: new Int32Array(Math.max(n - 1, 0)),
+    to: new Int32Array(Math.max(n - 1, 0)),
+    weights: new Float64Array(Math.max(n - 1, 0))
+  };
+  let edgeCount = 0;
+  const parent = Array.from({ length: n }, (_, i) => i);
+  const find = (x: number): number => {
+    while (parent[x] !== x) {
+      parent[x] = parent[parent[x]];
+      x = parent[x];
+    }
+    return x;
+  };
+
+  const nodeCount = tree.nodeCount;
+  const order = tree.pointOrder;
+  // Mutual reachability to any point of a node is at least its smallest core
+  // distance, which lets whole dense regions be skipped
+  const nodeMinCore = new Float64Array(nodeCount);
+  // Component shared by every point of a node, or -1 when they differ
+  const nodeComponent = new Int32Array(nodeCount);
+  const component = new Int32Array(n);
+
+  for (let node = nodeCount - 1; node >= 0; node--) {
+    const children = tree.children(node);
+    if (children) {
+      nodeMinCore[node] = Math.min(
+        nodeMinCore[children[0]],
+        nodeMinCore[children[1]]
+      );
+    } else {
+      const [start, end] = tree.nodeRange(node);
+      let minCore = Infinity;
+      for (let i = start; i < end; i++) {
+        minCore = Math.min(minCore, coreDistances[order[i]]);
+      }
+      nodeMinCore[node] = minCore;
+    }
+  }
+
+  const bestWeight = new Float64Array(n);
+  const bestFrom = new Int32Array(n);
+  const bestTo = new Int32Array(n);
+
+  while (edgeCount < n - 1) {
+    onProgress?.(edgeCount / (n - 1));
+    for (let i = 0; i < n; i++) {
+      component[i] = find(i);
+    }
+    for (let node = nodeCount - 1; node >= 0; node--) {
+      const children = tree.children(node);
+      if (children) {
+        const left = nodeComponent[children[0]];
+        nodeComponent[node] = left === nodeComponent[children[1]] ? left : -1;
+      } else {
+        const [start, end] = tree.nodeRange(node);
+        let shared = component[order[start]];
+        for (let i = start + 1; i < end && shared !== -1; i++) {
+          if (component[order[i]] !== shared) shared = -1;
+        }
+        nodeComponent[node] = shared;
+      }
+    }
+    bestWeight.fill(Infinity);
+    bestFrom.fill(-1);
+
+    for (let i = 0; i < n; i++) {
+      const c = component[i];
+      const point = data[i];
+      const core = coreDistances[i];
+      // every edge from i weighs at least its core distance
+      if (core >= bestWeight[c]) continue;
+
+      const search = (node: number, bound: number) => {
+        if (nodeComponent[node] === c) return;
+        if (Math.max(bound, core, nodeMinCore[node]) >= bestWeight[c]) return;
+
+        const children = tree.children(node);
+        if (!children) {
+          const [start, end] = tree.nodeRange(node);
+          for (let k = start; k < end; k++) {
+            const j = order[k];
+            if (component[j] === c) continue;
+            const weight = Math.max(
+              distance(point, data[j]) / alpha,
+              core,
+              coreDistances[j]
+            );
+            if (weight < bestWeight[c]) {
+              bestWeight[c] = weight;
+              bestFrom[c] = i;
+              bestTo[c] = j;
+            }
+          }
+          return;
+        }
+
+        // Visit the closer child first so the bound tightens sooner
+        const [left, right] = children;
+        const leftBound = tree.lowerBound(left, point) / alpha;
+        const rightBound = tree.lowerBound(right, point) / alpha;
+        if (leftBound <= rightBound) {
+          search(left, leftBound);
+          search(right, rightBound);
+        } else {
+          search(right, rightBound);
+          search(left, leftBound);
+        }
+      };
+      search(0, tree.lowerBound(0, point) / alpha);
+      yield;
+    }
+
+    const roundStart = edgeCount;
+    for (let c = 0; c < n; c++) {
+      if (bestFrom[c] === -1) continue;
+      const from = find(bestFrom[c]);
+      const to = find(bestTo[c]);
+      // two components may have picked the same (or an equally cheap) edge
+      if (from !== to) {
+        parent[to] = from;
+        edges.from[edgeCount] = bestFrom[c];
+        edges.to[edgeCount] = bestTo[c];
+        edges.weights[edgeCount] = bestWeight[c];
+        edgeCount++;
+      }
+    }
+    if (edgeCount === roundStart) {
+      // with validated input only a metric returning NaN gets here
+      throw new InvalidParameterError(
+        "metric",
+        "Failed to connect components of the spanning tree; the metric must return a number for every pair of points"
+      );
+    }
+  }
+
+  return edges;
+}
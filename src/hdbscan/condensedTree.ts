@@ -0,0 +1,129 @@
+export interface CondensedTreeRow {
+  parent: number; // cluster id
+  child: number; // point index below numPoints, cluster id otherwise
+  lambdaVal: number; // 1 / distance at which the child left the parent
+  childSize: number;
+}
+
+export interface CondensedTreeJSON {
+  numPoints: number;
+  // infinite lambdas (duplicate points) are stored as null
+  rows: {
+    parent: number;
+    child: number;
+    lambdaVal: number | null;
+    childSize: number;
+  }[];
+}
+
+// Flat view of the condensed cluster hierarchy, in the layout used by the
+// Python hdbscan library: points keep their index, clusters are numbered from
+// numPoints upwards with the root first, and every row records when a point
+// fell out of a cluster or when a cluster split off from its parent.
+export class CondensedTree {
+  private readonly rowByChild = new Map<number, CondensedTreeRow>();
+  private readonly rowsByParent = new Map<number, CondensedTreeRow[]>();
+
+  constructor(
+    public readonly rows: CondensedTreeRow[],
+    public readonly numPoints: number
+  ) {
+    rows.forEach((row) => {
+      this.rowByChild.set(row.child, row);
+      if (!this.rowsByParent.has(row.parent)) {
+        this.rowsByParent.set(row.parent, []);
+      }
+      this.rowsByParent.get(row.parent)!.push(row);
+    });
+  }
+
+  static fromJSON(json: CondensedTreeJSON): CondensedTree {
+    return new CondensedTree(
+      json.rows.map((row) => ({
+        ...row,
+        lambdaVal: row.lambdaVal === null ? Infinity : row.lambdaVal
+      })),
+      json.numPoints
+    );
+  }
+
+  get root(): number {
+    return this.numPoints;
+  }
+
+  isCluster(node: number): boolean {
+    return node >= this.numPoints;
+  }
+
+  // Every cluster id, root first
+  clusters(): number[] {
+    const clusters = this.rows.length > 0 ? [this.root] : [];
+    this.rows.forEach((row) => {
+      if (this.isCluster(row.child)) clusters.push(row.child);
+    });
+    return clusters;
+  }
+
+  // Rows for the points and clusters directly below a cluster
+  children(cluster: number): CondensedTreeRow[] {
+    return this.rowsByParent.get(cluster) ?? [];
+  }
+
+  childClusters(cluster: number): number[] {
+    return this.children(cluster)
+      .filter((row) => this.isCluster(row.child))
+      .map((row) => row.child);
+  }
+
+  // The row where a point or cluster leaves its parent; undefined for the root
+  row(node: number): CondensedTreeRow | undefined {
+    return this.rowByChild.get(node);
+  }
+
+  parent(node: number): number | undefined {
+    return this.rowByChild.get(node)?.parent;
+  }
+
+  // Clusters that never split again
+  leaves(): number[] {
+    return this.clusters().filter(
+      (cluster) => this.childClusters(cluster).length === 0
+    );
+  }
+
+  // Excess of mass: Σ (λ_p - λ_birth) over the cluster's points, where λ_p is
+  // when the point, or the child cluster carrying it, left the cluster
+  stability(cluster: number): number {
+    const birth = this.row(cluster)?.lambdaVal ?? 0;
+    return this.children(cluster).reduce(
+      (sum, row) => sum + (row.lambdaVal - birth) * row.childSize,
+      0
+    );
+  }
+
+  // All points below a cluster, including those in its descendants
+  clusterPoints(cluster: number): number[] {
+    const points: number[] = [];
+    const stack = [cluster];
+    while (stack.length > 0) {
+      this.children(stack.pop()!).forEach((row) => {
+        if (this.isCluster(row.child)) {
+          stack.push(row.child);
+        } else {
+          points.push(row.child);
+        }
+      });
+    }
+    return points;
+  }
+
+  toJSON(): CondensedTreeJSON {
+    return {
+      numPoints: this.numPoints,
+      rows: this.rows.map((row) => ({
+        ...row,
+        lambdaVal: Number.isFinite(row.lambdaVal) ? row.lambdaVal : null
+      }))
+    };
+  }
+}
@@ -1,361 +1,745 @@
+import { performance } from "perf_hooks";
+import {
+  DistanceFunction,
+  Metric,
+  MetricName,
+  resolveMetric,
+  validateDistanceMatrix,
+  Vector
+} from "./metrics";
+import { boruvkaSpanningTreeSteps, SpanningTree } from "./boruvka";
+import {
+  CondensedTree,
+  CondensedTreeJSON,
+  CondensedTreeRow
+} from "./condensedTree";
+import { outlierScores } from "./glosh";
+import { matchLabels, repairSpanningTree } from "./incremental";
+import { copyPoints, DataInput, Point, rowToArray, toPoints } from "./input";
+import {
+  clusterExemplars,
+  clusterMaxLambda,
+  findClusterAndProbability,
+  membershipVector,
+  PredictionResult
+} from "./prediction";
+import {
+  CoreDistanceTask,
+  defaultWorkerCount,
+  DistanceTask,
+  rowCoreDistance,
+  runInWorkers,
+  TreeTask
+} from "./parallel";
+import {
+  InvalidInputError,
+  InvalidParameterError,
+  NotFittedError,
+  UnsupportedOperationError
+} from "./errors";
+import { consoleLogger, LogFields, Logger } from "./logger";
+import {
+  emptyTimings,
+  FitTimings,
+  ProgressCallback,
+  ProgressReporter,
+  runSteps,
+  Steps
+} from "./progress";
+import { LinkageRow, SingleLinkageTree } from "./singleLinkageTree";
+import { resolveSparseMetric, SparseVector } from "./sparse";
+import {
+  BALL_TREE_METRICS,
+  BallTree,
+  BinarySpaceTree,
+  BruteForceIndex,
+  KD_TREE_METRICS,
+  KDTree,
+  SpatialIndex
+} from "./trees";
+
 export interface HDBSCANParams {
+  // deprecated: the same as logger: consoleLogger("debug")
   debugMode?: boolean;
   minClusterSize?: number;
   minSamples?: number;
-  alpha?: number;
-  metric?: "euclidean";
-  algorithm?: "best" | "generic" | "prims";
-  leafSize?: number;
+  alpha?: number; // direct distances are divided by alpha (robust single linkage)
+  // "precomputed" makes fit take an n×n distance matrix instead of vectors
+  metric?: Metric | "precomputed";
+  p?: number; // power parameter for the minkowski metric
+  // "generic" builds the dense mutual reachability matrix; the prims and
+  // boruvka variants get core distances from a KD-tree or ball tree and never
+  // store it, and boruvka also avoids Prim's quadratic number of distances
+  algorithm?: Algorithm;
+  leafSize?: number; // maximum number of points in a spatial index leaf
+  // "eom" keeps the most persistent clusters, "leaf" the finest ones
+  clusterSelectionMethod?: ClusterSelectionMethod;
+  // clusters born below this distance are merged back into their ancestor
+  clusterSelectionEpsilon?: number;
+  // lets the root be selected, so data that is one blob is one cluster
+  allowSingleCluster?: boolean;
+  // clusters with more points are never selected, their children are
+  maxClusterSize?: number;
+  // deprecated: the inverse of allowSingleCluster
   shouldSkipRootCluster?: boolean;
+  // called with the stage and overall percent as a fit advances
+  onProgress?: ProgressCallback;
+  // gets a summary of every fit at info level and its steps at debug level
+  logger?: Logger;
+}
+
+export type ClusterSelectionMethod = "eom" | "leaf";
+
+// Plain-object form of a model from HDBSCAN.toJSON. Bump MODEL_FORMAT_VERSION
+// whenever the layout changes so older payloads are rejected, not misread.
+export interface HDBSCANJSON {
+  version: number;
+  params: {
+    minClusterSize: number;
+    minSamples: number;
+    alpha: number;
+    metric: MetricName | "precomputed";
+    p: number;
+    algorithm: Algorithm;
+    leafSize: number;
+    clusterSelectionMethod: ClusterSelectionMethod;
+    clusterSelectionEpsilon: number;
+    allowSingleCluster: boolean;
+    maxClusterSize: number | null; // null for no limit
+  };
+  labels: number[];
+  probabilities: number[];
+  minimumSpanningTree: [number, number, number][];
+  condensedTree: CondensedTreeJSON;
+  // what prediction needs on top of the trees
+  data: number[][] | SparseVector[];
+  coreDistances: number[];
+  selectedClusterIds: number[];
+}
+
+const MODEL_FORMAT_VERSION = 2;
+
+export interface FitAsyncOptions {
+  workers?: number; // defaults to the number of CPUs
+  dimensions?: number; // row length when data is a flat typed array
+  signal?: AbortSignal; // rejects the fit once aborted
+}
+
+// Summary of a selected cluster from the condensed tree
+export interface ClusterInfo {
+  label: number;
+  size: number;
+  birthLambda: number; // 1 / distance at which it split off, 0 for the root
+  deathLambda: number; // lambda at which it split again or its last point left
+  stability: number; // excess of mass, the quantity cluster selection maximizes
+  persistence: number; // stability scaled into [0, 1], see clusterPersistence_
+  meanProbability: number; // mean of probabilities_ over its points
+}
+
+// Density-based clustering validation (DBCV) scores
+export interface ValidityResult {
+  score: number; // size-weighted mean of clusters, noise points count as 0
+  clusters: number[]; // validity of each label, in [-1, 1]
 }
 
-function euclideanDistance(a: number[], b: number[]): number {
-  return a.reduce((acc, curr, index) => acc + (curr - b[index]) ** 2, 0);
+export interface ValidityOptions {
+  metric?: Metric | "precomputed";
+  p?: number; // power parameter for the minkowski metric
+  // number of features: the row length of a flat typed array, and required
+  // with "precomputed" since the matrix does not tell
+  dimensions?: number;
 }
 
+export type Algorithm =
+  | "best"
+  | "generic"
+  | "prims"
+  | "prims_kdtree"
+  | "prims_balltree"
+  | "boruvka"
+  | "boruvka_kdtree"
+  | "boruvka_balltree";
+
+type ResolvedAlgorithm =
+  | "generic"
+  | "prims_kdtree"
+  | "prims_balltree"
+  | "boruvka_kdtree"
+  | "boruvka_balltree";
+
+// Distance between two rows of the fitted data
+type PointDistance = (a: Point, b: Point) => number;
+
+// Tree searches stop pruning well in high dimensions, where Borůvka loses to
+// Prim's plain quadratic scan
+const BORUVKA_MAX_DIMENSIONS = 60;
+
 interface Cluster {
   id: number;
-  children: number[];
-  distance: number;
+  children: number[]; // points in the cluster at its birth
   size: number;
   stability?: number;
-  maxEdgeWeight?: number;
-  birthDistance?: number; // ε_max for the cluster
+  birthDistance: number; // ε_max for the cluster
   leaveEdgeWeight: number; // ε_min for the cluster
-  minReachabilityMap?: Map<number, number>; // ε_min for each point
+  minReachabilityMap: Map<number, number>; // ε_min for each point
   leftChild?: Cluster; // Add these to track binary tree structure
   rightChild?: Cluster;
+  parent?: Cluster;
+}
+
+// Picks the MST strategy for a metric, preferring a KD-tree when the metric
+// allows one and falling back to the dense matrix otherwise
+function resolveAlgorithm(
+  algorithm: Algorithm,
+  metric: Metric | "precomputed",
+  dimensions: number = 0,
+  sparse: boolean = false
+): ResolvedAlgorithm {
+  // trees need dense coordinates to bound their nodes
+  if (sparse && (algorithm === "best" || algorithm === "generic")) {
+    return "generic";
+  }
+  if (sparse) {
+    throw new InvalidParameterError(
+      "algorithm",
+      `algorithm "${algorithm}" does not support sparse input, use "generic" or "best"`
+    );
+  }
+  const metricName = typeof metric === "function" ? "custom" : metric;
+  const kdTreeSupported =
+    typeof metric === "string" &&
+    (KD_TREE_METRICS as string[]).includes(metric);
+  const ballTreeSupported =
+    typeof metric === "function" ||
+    (BALL_TREE_METRICS as string[]).includes(metric);
+
+  switch (algorithm) {
+    case "generic":
+      return "generic";
+    case "best":
+      if (!kdTreeSupported) return "generic";
+      return dimensions > BORUVKA_MAX_DIMENSIONS
+        ? "prims_kdtree"
+        : "boruvka_kdtree";
+    case "prims":
+    case "boruvka":
+      // a ball tree only prunes correctly for true metrics, which a custom
+      // function need not be; *_balltree opts in explicitly
+      if (typeof metric === "function") return "generic";
+      if (kdTreeSupported) return `${algorithm}_kdtree`;
+      if (ballTreeSupported) return `${algorithm}_balltree`;
+      break;
+    case "prims_kdtree":
+    case "boruvka_kdtree":
+      if (kdTreeSupported) return algorithm;
+      break;
+    case "prims_balltree":
+    case "boruvka_balltree":
+      if (ballTreeSupported) return algorithm;
+      break;
+    default:
+      throw new InvalidParameterError(
+        "algorithm",
+        `Unknown algorithm: ${algorithm}`
+      );
+  }
+  throw new InvalidParameterError(
+    "algorithm",
+    `algorithm "${algorithm}" does not support the ${metricName} metric`
+  );
+}
+
+// Lets timers and I/O, such as an abort, run between stages of fitAsync
+function nextTurn(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+// Longest fitAsync keeps the main thread before giving it back
+const TURN_MS = 10;
+
+// runSteps for fitAsync: gives the event loop a turn every TURN_MS and
+// stops there if the signal was aborted meanwhile
+async function runStepsAsync<T>(
+  steps: Steps<T>,
+  progress: ProgressReporter
+): Promise<T> {
+  let turnStartedAt = performance.now();
+  for (;;) {
+    const step = steps.next();
+    if (step.done) return step.value;
+    if (performance.now() - turnStartedAt >= TURN_MS) {
+      await nextTurn();
+      progress.throwIfAborted();
+      turnStartedAt = performance.now();
+    }
+  }
+}
+
+// Step 2 without a spatial index: Prim's algorithm over a complete graph
+// given as a weight function
+function primMinimumSpanningTree(
+  n: number,
+  distance: (i: number, j: number) => number,
+  onProgress?: (fraction: number) => void
+): SpanningTree {
+  return runSteps(primSpanningTreeSteps(n, distance, onProgress));
+}
+
+// The same, yielding after each edge
+function* primSpanningTreeSteps(
+  n: number,
+  distance: (i: number, j: number) => number,
+  onProgress?: (fraction: number) => void
+): Steps<SpanningTree> {
+  const edges: SpanningTree = {
+    from: new Int32Array(Math.max(n - 1, 0)),
+    to: new Int32Array(Math.max(n - 1, 0)),
+    weights: new Float64Array(Math.max(n - 1, 0))
+  };
+  const visited = new Uint8Array(n);
+  // minEdges[i] is the minimum edge weight from vertex i to any visited vertex
+  const minEdges = new Float64Array(n).fill(Infinity);
+  // minEdgeConnections[i] is the vertex that is connected to vertex i by the minimum edge weight
+  const minEdgeConnections = new Int32Array(n).fill(-1);
+
+  // Start with vertex 0
+  visited[0] = 1;
+
+  // Update min edges from starting vertex
+  for (let i = 1; i < n; i++) {
+    minEdges[i] = distance(0, i);
+    minEdgeConnections[i] = 0;
+  }
+
+  // Build MST with n-1 edges
+  for (let edge = 0; edge < n - 1; edge++) {
+    onProgress?.(edge / (n - 1));
+    // Find minimum edge connecting to unvisited vertex
+    let minDist = Infinity;
+    let nextVertex = -1;
+
+    for (let i = 0; i < n; i++) {
+      if (!visited[i] && (nextVertex === -1 || minEdges[i] < minDist)) {
+        minDist = minEdges[i];
+        nextVertex = i;
+      }
+    }
+
+    // Add edge to MST
+    edges.from[edge] = minEdgeConnections[nextVertex];
+    edges.to[edge] = nextVertex;
+    edges.weights[edge] = minDist;
+    visited[nextVertex] = 1;
+
+    // Update min edges from new vertex
+    for (let i = 0; i < n; i++) {
+      if (visited[i]) continue;
+      // if the edge from nextVertex to i is smaller than the current
+      // minimum edge weight from i to any visited vertex
+      const d = distance(nextVertex, i);
+      if (d < minEdges[i]) {
+        minEdges[i] = d;
+        minEdgeConnections[i] = nextVertex;
+      }
+    }
+    yield;
+  }
+
+  return edges;
+}
+
+// Checks that a saved model has every field fromJSON rebuilds from, each
+// sized for the saved data, and names the first one that does not
+function validateModelJSON(json: HDBSCANJSON): void {
+  const invalid = (field: string, problem: string) =>
+    new InvalidInputError(`Cannot load the model: ${field} ${problem}`);
+  const isNumber = (value: unknown): value is number =>
+    typeof value === "number";
+  const isIndex = (value: unknown, length: number) =>
+    Number.isInteger(value) &&
+    (value as number) >= 0 &&
+    (value as number) < length;
+  const checkArray = (
+    field: string,
+    values: unknown,
+    length: number | null,
+    isValid: (value: unknown) => boolean,
+    expected: string
+  ) => {
+    if (!Array.isArray(values)) {
+      throw invalid(field, "is missing");
+    }
+    if (length !== null && values.length !== length) {
+      throw invalid(
+        field,
+        `has ${values.length} entries, expected ${length} for ${json.data.length} points`
+      );
+    }
+    // by index, since some and forEach skip holes
+    for (let i = 0; i < values.length; i++) {
+      if (!isValid(values[i])) {
+        throw invalid(`${field}[${i}]`, `is not ${expected}`);
+      }
+    }
+  };
+
+  if (typeof json.params !== "object" || json.params === null) {
+    throw invalid("params", "is missing");
+  }
+  if (!Array.isArray(json.data)) {
+    throw invalid("data", "is missing");
+  }
+  const n = json.data.length;
+  checkArray(
+    "selectedClusterIds",
+    json.selectedClusterIds,
+    null,
+    (id) => Number.isInteger(id) && (id as number) >= n,
+    "a cluster id"
+  );
+  const numClusters = json.selectedClusterIds.length;
+  checkArray(
+    "labels",
+    json.labels,
+    n,
+    (label) => label === -1 || isIndex(label, numClusters),
+    `-1 or a label below ${numClusters}`
+  );
+  checkArray("probabilities", json.probabilities, n, isNumber, "a number");
+  checkArray("coreDistances", json.coreDistances, n, isNumber, "a number");
+  checkArray(
+    "minimumSpanningTree",
+    json.minimumSpanningTree,
+    Math.max(n - 1, 0),
+    (edge) =>
+      Array.isArray(edge) &&
+      isIndex(edge[0], n) &&
+      isIndex(edge[1], n) &&
+      isNumber(edge[2]),
+    "a [from, to, weight] edge between points"
+  );
+
+  const tree = json.condensedTree;
+  if (typeof tree !== "object" || tree === null) {
+    throw invalid("condensedTree", "is missing");
+  }
+  if (tree.numPoints !== n) {
+    throw invalid(
+      "condensedTree.numPoints",
+      `is ${tree.numPoints}, expected ${n}`
+    );
+  }
+  checkArray(
+    "condensedTree.rows",
+    tree.rows,
+    null,
+    (row) => {
+      if (typeof row !== "object" || row === null) return false;
+      const { parent, child, lambdaVal, childSize } =
+        row as CondensedTreeJSON["rows"][number];
+      return (
+        Number.isInteger(parent) &&
+        parent >= n &&
+        Number.isInteger(child) &&
+        child >= 0 &&
+        (lambdaVal === null || isNumber(lambdaVal)) &&
+        Number.isInteger(childSize) &&
+        childSize >= 1
+      );
+    },
+    "a row with parent, child, lambdaVal and childSize"
+  );
+  const clusters = new Set([n, ...tree.rows.map(({ child }) => child)]);
+  json.selectedClusterIds.forEach((id, i) => {
+    if (!clusters.has(id)) {
+      throw invalid(
+        `selectedClusterIds[${i}]`,
+        `is ${id}, which is not a cluster of condensedTree`
+      );
+    }
+  });
 }
 
 export class HDBSCAN {
-  private debugMode: boolean;
+  private logger: Logger | null;
   private minClusterSize: number;
   private minSamples: number;
+  private alpha: number;
+  private metric: Metric | "precomputed";
+  private p: number;
+  private distance: DistanceFunction | null;
+  private algorithm: Algorithm;
+  private leafSize: number;
+  private clusterSelectionMethod: ClusterSelectionMethod;
+  private clusterSelectionEpsilon: number;
+  private allowSingleCluster: boolean;
+  private maxClusterSize: number;
+  private onProgress?: ProgressCallback;
 
   public labels_: number[];
   public probabilities_: number[];
+  // GLOSH score per point in [0, 1], higher for stronger outliers
+  public outlierScores_: number[] = [];
+  // per label, the fitted points that persist to the cluster's highest lambda
+  public exemplars_: number[][][] = [];
+  // For every label, its stability relative to the most stable a cluster of
+  // its size could be: 1 for a cluster whose points all persist to the
+  // largest lambda of the tree, near 0 for one that barely outlives its birth
+  public clusterPersistence_: number[] = [];
+  public clusterInfo_: ClusterInfo[] = [];
+  public condensedTree_: CondensedTree;
+  public singleLinkageTree_: SingleLinkageTree;
+  // [source, destination, mutual reachability], ascending by weight
+  public minimumSpanningTree_: [number, number, number][] = [];
+  // wall-clock milliseconds of each stage of the last fit or partialFit
+  public timings_: FitTimings = emptyTimings();
 
-  private clusterMap: Map<number, Cluster> = new Map();
   private nextClusterId: number = 0;
-  private sortedEdges: [number, number, number][] = [];
-  private shouldSkipRootCluster: boolean = true;
-  private mutualReachabilityDistance: number[][] = [];
+  // progress of the fit in flight
+  private progress: ProgressReporter = new ProgressReporter();
+  // n × n, row-major
+  private mutualReachabilityDistance: Float64Array = new Float64Array(0);
+  private coreDistances: number[] = [];
+  private data: Point[] = [];
+  private sparse: boolean = false;
+  // metric between rows of data: the sparse variant for sparse input, null
+  // for precomputed distances
+  private rowDistance: PointDistance | null = null;
+  private neighborIndex: SpatialIndex<Point> | null = null;
+  // condensed tree cluster id for each label
+  private selectedClusterIds: number[] = [];
 
   constructor({
     minClusterSize = 5,
     minSamples = minClusterSize,
+    alpha = 1,
     debugMode = false,
-    shouldSkipRootCluster = true
+    metric = "euclidean",
+    p = 2,
+    algorithm = "best",
+    leafSize = 40,
+    clusterSelectionMethod = "eom",
+    clusterSelectionEpsilon = 0,
+    shouldSkipRootCluster,
+    allowSingleCluster = shouldSkipRootCluster === false,
+    maxClusterSize = Infinity,
+    onProgress,
+    logger
   }: HDBSCANParams = {}) {
-    // Add parameter validation
-    if (minClusterSize <= 0) {
-      throw new Error("minClusterSize must be greater than 0");
+    if (!Number.isInteger(minClusterSize) || minClusterSize <= 0) {
+      throw new InvalidParameterError(
+        "minClusterSize",
+        `minClusterSize must be an integer greater than 0, got ${minClusterSize}`
+      );
+    }
+    if (!Number.isInteger(minSamples) || minSamples <= 0) {
+      throw new InvalidParameterError(
+        "minSamples",
+        `minSamples must be an integer greater than 0, got ${minSamples}`
+      );
+    }
+    if (!(alpha > 0) || !Number.isFinite(alpha)) {
+      throw new InvalidParameterError(
+        "alpha",
+        `alpha must be a finite number greater than 0, got ${alpha}`
+      );
+    }
+    if (!(leafSize >= 1)) {
+      throw new InvalidParameterError(
+        "leafSize",
+        `leafSize must be at least 1, got ${leafSize}`
+      );
+    }
+    if (clusterSelectionMethod !== "eom" && clusterSelectionMethod !== "leaf") {
+      throw new InvalidParameterError(
+        "clusterSelectionMethod",
+        `Unknown clusterSelectionMethod: ${clusterSelectionMethod}, expected "eom" or "leaf"`
+      );
+    }
+    if (
+      !(clusterSelectionEpsilon >= 0) ||
+      !Number.isFinite(clusterSelectionEpsilon)
+    ) {
+      throw new InvalidParameterError(
+        "clusterSelectionEpsilon",
+        `clusterSelectionEpsilon must be a finite number of at least 0, got ${clusterSelectionEpsilon}`
+      );
     }
-    if (minSamples <= 0) {
-      throw new Error("minSamples must be greater than 0");
+    if (!(maxClusterSize >= 1)) {
+      throw new InvalidParameterError(
+        "maxClusterSize",
+        `maxClusterSize must be at least 1, got ${maxClusterSize}`
+      );
     }
 
     this.minClusterSize = minClusterSize;
     this.minSamples = minSamples || minClusterSize;
+    this.alpha = alpha;
+    this.metric = metric;
+    this.p = p;
+    this.distance = metric === "precomputed" ? null : resolveMetric(metric, p);
+    // validate now, the dimension-dependent choice is made in fit
+    resolveAlgorithm(algorithm, metric);
+    this.algorithm = algorithm;
+    this.leafSize = leafSize;
+    this.clusterSelectionMethod = clusterSelectionMethod;
+    this.clusterSelectionEpsilon = clusterSelectionEpsilon;
+    this.allowSingleCluster = allowSingleCluster;
+    this.maxClusterSize = maxClusterSize;
+    this.onProgress = onProgress;
     this.labels_ = [];
     this.probabilities_ = [];
-    this.debugMode = debugMode;
-    this.shouldSkipRootCluster = shouldSkipRootCluster;
+    this.condensedTree_ = new CondensedTree([], 0);
+    this.singleLinkageTree_ = new SingleLinkageTree([], 0);
+    this.logger = logger ?? (debugMode ? consoleLogger("debug") : null);
   }
 
   // Step 1: Transform space using mutual reachability distance
-  private computeMutualReachabilityDistance(data: number[][]): number[][] {
+  private *computeMutualReachabilityDistance(
+    data: Point[]
+  ): Steps<Float64Array> {
     const n = data.length;
-    const distanceMatrix = Array(n)
-      .fill(0)
-      .map(() => Array(n).fill(0));
-    const coreDistances = new Array(n).fill(0);
-
-    // Calculate core distances more efficiently using k-nearest neighbors
+    const distanceMatrix = yield* this.computeDistanceMatrix(data);
+    // core distance: distance to the kth nearest neighbor
+    const coreDistances: number[] = [];
     for (let i = 0; i < n; i++) {
-      const pointDistances = [];
-      for (let j = 0; j < n; j++) {
-        if (i !== j) {
-          pointDistances.push({
-            index: j,
-            distance: euclideanDistance(data[i], data[j])
-          });
-        }
-      }
-      // Sort by distance and get kth nearest neighbor distance
-      pointDistances.sort((a, b) => a.distance - b.distance);
-      coreDistances[i] =
-        pointDistances[
-          Math.min(this.minSamples - 1, pointDistances.length - 1)
-        ].distance;
+      coreDistances.push(
+        rowCoreDistance(
+          distanceMatrix.subarray(i * n, (i + 1) * n),
+          i,
+          this.minSamples
+        )
+      );
+      yield;
     }
+    return yield* this.applyMutualReachability(distanceMatrix, coreDistances);
+  }
 
-    // Calculate mutual reachability distances
+  // Turns a distance matrix into mutual reachability distances, in place
+  private *applyMutualReachability(
+    distanceMatrix: Float64Array,
+    coreDistances: number[]
+  ): Steps<Float64Array> {
+    const n = coreDistances.length;
     for (let i = 0; i < n; i++) {
       for (let j = 0; j < n; j++) {
-        const directDistance = euclideanDistance(data[i], data[j]);
-        distanceMatrix[i][j] = Math.max(
+        const directDistance = distanceMatrix[i * n + j] / this.alpha;
+        distanceMatrix[i * n + j] = Math.max(
           directDistance,
           coreDistances[i],
           coreDistances[j]
         );
       }
+      yield;
     }
     this.mutualReachabilityDistance = distanceMatrix;
+    this.coreDistances = coreDistances;
     return distanceMatrix;
   }
 
-  // Step 2: Build minimum spanning tree
-  private buildMinimumSpanningTree(
-    distances: number[][]
-  ): [number, number, number][] {
-    const n = distances.length;
-    // edges defined as [source, destination, weight]
-    const edges: [number, number, number][] = [];
-    const visited = new Set<number>();
-    // minEdges[i] is the minimum edge weight from vertex i to any visited vertex
-    const minEdges = new Array(n).fill(Infinity);
-    // minEdgeConnections[i] is the vertex that is connected to vertex i by the minimum edge weight
-    const minEdgeConnections = new Array(n).fill(-1);
-
-    // Start with vertex 0
-    visited.add(0);
-
-    // Update min edges from starting vertex
-    for (let i = 1; i < n; i++) {
-      minEdges[i] = distances[0][i];
-      minEdgeConnections[i] = 0;
-    }
-
-    // Build MST with n-1 edges
-    while (visited.size < n) {
-      // Find minimum edge connecting to unvisited vertex
-      let minDist = Infinity;
-      let nextVertex = -1;
-
-      for (let i = 0; i < n; i++) {
-        if (!visited.has(i) && minEdges[i] < minDist) {
-          minDist = minEdges[i];
-          nextVertex = i;
-        }
-      }
+  // Step 1 with a spatial index: core distances through k-NN queries, so no
+  // dense matrix is ever built
+  private *computeCoreDistances(
+    data: Vector[],
+    index: BinarySpaceTree
+  ): Steps<number[]> {
+    const n = data.length;
+    // the query returns the point itself first, at distance 0
+    const k = Math.min(this.minSamples, n - 1) + 1;
 
-      // Add edge to MST
-      if (nextVertex !== -1) {
-        edges.push([minEdgeConnections[nextVertex], nextVertex, minDist]);
-        visited.add(nextVertex);
-
-        // Update min edges from new vertex
-        for (let i = 0; i < n; i++) {
-          // if i is not visited and the
-          // edge from nextVertex to i is smaller than the current minimum edge weight from i to any visited vertex
-          if (!visited.has(i) && distances[nextVertex][i] < minEdges[i]) {
-            minEdges[i] = distances[nextVertex][i];
-            minEdgeConnections[i] = nextVertex;
-          }
-        }
-      }
+    const coreDistances: number[] = [];
+    for (let i = 0; i < n; i++) {
+      this.progress.report("coreDistances", i / n);
+      coreDistances.push(index.query(data[i], k).distances[k - 1]);
+      yield;
     }
-
-    return edges;
+    this.mutualReachabilityDistance = new Float64Array(0);
+    this.coreDistances = coreDistances;
+    return coreDistances;
   }
 
-  // Step 3: Build cluster hierarchy
-  private buildClusterHierarchy(mst: [number, number, number][]): Cluster[] {
-    const n = mst.length + 1;
-    const hierarchy: Cluster[] = [];
-    // sort edges by weight in descending order
-    const sortedEdges = [...mst].sort((a, b) => b[2] - a[2]);
-
-    this.log(
-      "\nInitial MST edges (sorted by distance):",
-      sortedEdges.map(([s, d, w]) => ({
-        source: s,
-        dest: d,
-        weight: w
-      }))
-    );
-
-    const allPoints = Array.from({ length: n }, (_, i) => i);
-
-    // Create root cluster
-    const rootCluster = this.createCluster(
-      allPoints,
-      sortedEdges[0][2],
-      sortedEdges,
-      sortedEdges[0][2]
-    );
-    hierarchy.push(rootCluster);
-    // always skip root cluster by default same as scikit-learn
-    rootCluster.stability = 0;
-    this.log("sorted edges: ", sortedEdges);
-
-    // Process edges in decreasing order to build binary tree
-    for (let index = 0; index < sortedEdges.length; index++) {
-      this.log("processing edge: ", sortedEdges[index]);
-      const [src, dst, distance] = sortedEdges[index];
-
-      // Find current cluster containing these points
-      const parentCluster = this.findClusterContainingPoints(
-        [src, dst],
-        hierarchy
-      );
-      if (!parentCluster) {
-        throw new Error("parentCluster not found");
-      }
-      // already processed
-      if (parentCluster.leftChild) continue;
-
-      // Split cluster into two based on this edge
-      const components = this.splitClusterAtEdge(
-        parentCluster.children,
-        sortedEdges[index],
-        sortedEdges.slice(index + 1)
-      );
-
-      this.log("splitted children: ", components);
-      if (
-        components.length > 2 ||
-        (components.length < 2 && components.every((c) => c.length === 1))
-      ) {
-        this.log("reach leafe cluster");
-      } else if (components.length == 0) {
-        this.log("reach leafe cluster");
-      } else if (components.length == 2) {
-        this.log("successfully split cluster into 2");
-      } else {
-        throw new Error(
-          "splitClusterAtEdge returned less or more than 2 components"
-        );
-      }
-
-      if (components.length === 2) {
-        const [leftPoints, rightPoints] = components;
-        let isLeftCluster = false;
-        let isRightCluster = false;
-        const leftCluster = this.createCluster(
-          leftPoints,
-          distance,
-          this.sortedEdges,
-          sortedEdges[index][2]
-        );
-        if (leftPoints.length >= this.minClusterSize) {
-          isLeftCluster = true;
-          parentCluster.leftChild = leftCluster;
-        } else {
-          leftCluster.stability = 0;
-        }
-        hierarchy.push(leftCluster);
+  // Pairwise distances under the configured metric as a row-major n × n
+  // matrix, or a validated copy of the input when it is already one,
+  // written into distanceMatrix when given
+  private *computeDistanceMatrix(
+    data: Point[],
+    distanceMatrix: Float64Array = new Float64Array(data.length ** 2)
+  ): Steps<Float64Array> {
+    const n = data.length;
+    const distance = this.rowDistance;
+    if (distance === null) {
+      const matrix = data as Vector[];
+      validateDistanceMatrix(matrix);
+      matrix.forEach((row, i) => distanceMatrix.set(row, i * n));
+      return distanceMatrix;
+    }
 
-        const rightCluster = this.createCluster(
-          rightPoints,
-          distance,
-          this.sortedEdges,
-          sortedEdges[index][2]
-        );
-        if (rightPoints.length >= this.minClusterSize) {
-          isRightCluster = true;
-          parentCluster.rightChild = rightCluster;
-        } else {
-          rightCluster.stability = 0;
-        }
-        hierarchy.push(rightCluster);
-        if (
-          (isLeftCluster && !isRightCluster) ||
-          (!isLeftCluster && isRightCluster)
-        ) {
-          this.log("find outliers, discard parent cluster");
-          parentCluster.stability = 0;
-        }
+    for (let i = 0; i < n; i++) {
+      // rows get shorter, so progress goes by the pairs done so far
+      this.progress.report("coreDistances", 1 - ((n - i) / n) ** 2);
+      for (let j = i + 1; j < n; j++) {
+        const d = distance(data[i], data[j]);
+        distanceMatrix[i * n + j] = d;
+        distanceMatrix[j * n + i] = d;
       }
+      yield;
     }
+    return distanceMatrix;
+  }
 
-    this.log(
-      "Built hierarchy:",
-      hierarchy.map((h) => ({
-        id: h.id,
-        size: h.size,
-        children: h.children,
-        leftChild: h.leftChild?.id,
-        rightChild: h.rightChild?.id
-      }))
+  // Step 3: Build cluster hierarchy
+  // Merges points along the MST edges in ascending order (single linkage).
+  // Row i describes merged node n + i as [left, right, distance, size], where
+  // ids below n are points.
+  private buildClusterHierarchy(mst: SpanningTree): LinkageRow[] {
+    const { from, to, weights } = mst;
+    const n = weights.length + 1;
+    // sort edges by weight in ascending order, keeping ties in edge order
+    const order = Array.from(weights.keys()).sort(
+      (a, b) => weights[a] - weights[b] || a - b
     );
+    this.minimumSpanningTree_ = order.map((edge) => [
+      from[edge],
+      to[edge],
+      weights[edge]
+    ]);
+
+    this.debug("Sorted spanning tree edges", () => ({
+      edges: this.minimumSpanningTree_.map(([source, dest, weight]) => ({
+        source,
+        dest,
+        weight
+      }))
+    }));
+
+    const parent = Array.from({ length: 2 * n - 1 }, (_, i) => i);
+    const sizes = new Array(2 * n - 1).fill(1);
+    const hierarchy: LinkageRow[] = [];
+
+    order.forEach((edge, index) => {
+      const left = this.find(from[edge], parent);
+      const right = this.find(to[edge], parent);
+      const node = n + index;
+      parent[left] = node;
+      parent[right] = node;
+      sizes[node] = sizes[left] + sizes[right];
+      hierarchy.push([left, right, weights[edge], sizes[node]]);
+    });
+
+    this.debug("Built hierarchy", () => ({ hierarchy }));
 
     return hierarchy;
   }
 
-  private createCluster(
-    points: number[],
-    distance: number,
-    sortedEdges: [number, number, number][],
-    birthDistance: number
-  ): Cluster {
-    const minReachMap = new Map<number, number>();
-    let leaveEdgeWeight = 0;
-    points.forEach((p) => {
-      let minReach = this.getMinReachability(p, points, sortedEdges);
-      if (minReach === Infinity) {
-        // set it to 0 if we failed to find a reachability for that point
-        minReach = 0;
-      }
-      minReachMap.set(p, minReach);
-      leaveEdgeWeight = Math.max(leaveEdgeWeight, minReach);
-    });
-
-    const cluster: Cluster = {
+  private createCluster(points: number[], birthDistance: number): Cluster {
+    return {
       id: this.nextClusterId++,
       children: points,
-      distance: distance,
       size: points.length,
-      maxEdgeWeight: distance,
       birthDistance: birthDistance,
-      minReachabilityMap: minReachMap,
-      leaveEdgeWeight
+      minReachabilityMap: new Map<number, number>(),
+      leaveEdgeWeight: 0
     };
-
-    this.clusterMap.set(cluster.id, cluster);
-    return cluster;
-  }
-
-  private splitClusterAtEdge(
-    points: number[],
-    [removed_s, removed_d, distance]: [number, number, number],
-    sortedEdges: [number, number, number][]
-  ): number[][] {
-    const parent = Array.from(
-      { length: this.sortedEdges.length + 1 },
-      (_, i) => i
-    );
-    this.log(
-      "split cluster at edge: ",
-      points,
-      [removed_s, removed_d, distance],
-      sortedEdges
-    );
-    // Only union points connected by edges with weight >= distance
-    sortedEdges
-      .filter(([, , w]) => w <= distance)
-      .forEach(([s, d, _]) => {
-        if (points.includes(s) && points.includes(d)) {
-          const rootX = this.find(s, parent);
-          const rootY = this.find(d, parent);
-          if (rootX !== rootY) {
-            parent[rootY] = rootX;
-          }
-        }
-      });
-
-    // Find components
-    const components = new Map<number, number[]>();
-    points.forEach((point) => {
-      const root = this.find(point, parent);
-      if (!components.has(root)) {
-        components.set(root, []);
-      }
-      components.get(root)!.push(point);
-    });
-
-    return Array.from(components.values());
   }
 
   // Helper function for finding root in disjoint set
@@ -363,162 +747,361 @@ export class HDBSCAN {
     if (x >= parent.length) {
       throw new Error("find called with x greater than parent array length");
     }
-    if (parent[x] !== x) {
-      parent[x] = this.find(parent[x], parent);
+    let root = x;
+    while (parent[root] !== root) {
+      root = parent[root];
     }
-    return parent[x];
+    // compress the path so later lookups are constant time
+    while (parent[x] !== root) {
+      const next = parent[x];
+      parent[x] = root;
+      x = next;
+    }
+    return root;
+  }
+
+  // Points below a node of the single linkage hierarchy
+  private getHierarchyPoints(node: number, hierarchy: LinkageRow[]): number[] {
+    const n = hierarchy.length + 1;
+    const points: number[] = [];
+    const stack = [node];
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      if (current < n) {
+        points.push(current);
+      } else {
+        const [left, right] = hierarchy[current - n];
+        stack.push(right, left);
+      }
+    }
+    return points;
   }
 
   // Step 4: Condense cluster hierarchy
-  private condenseHierarchy(hierarchy: Cluster[]): Cluster[] {
-    const condensed = hierarchy.filter((cluster) => {
-      // Get actual points in this cluster
-      const clusterPoints = this.getClusterPoints(cluster);
-      // Only keep clusters that have enough actual points
-      return clusterPoints.size >= this.minClusterSize;
-    });
+  // Walks the single linkage hierarchy top-down. A split only creates new
+  // clusters when both sides have at least minClusterSize points; otherwise
+  // the smaller side falls out of the current cluster as noise at that
+  // distance and the cluster carries on.
+  private condenseHierarchy(hierarchy: LinkageRow[]): Cluster[] {
+    const n = hierarchy.length + 1;
+    const nodeSize = (node: number) => (node < n ? 1 : hierarchy[node - n][3]);
+    const rootNode = 2 * n - 2;
+
+    const root = this.createCluster(
+      this.getHierarchyPoints(rootNode, hierarchy),
+      Infinity
+    );
+    const condensed: Cluster[] = [root];
+    const queue: [Cluster, number][] = [[root, rootNode]];
+
+    for (let q = 0; q < queue.length; q++) {
+      const [cluster, start] = queue[q];
+      const minReach = cluster.minReachabilityMap;
+      let node = start;
+
+      while (node >= n) {
+        const [left, right, distance] = hierarchy[node - n];
+        const isLeftCluster = nodeSize(left) >= this.minClusterSize;
+        const isRightCluster = nodeSize(right) >= this.minClusterSize;
+
+        if (isLeftCluster && isRightCluster) {
+          // true split: every remaining point leaves at this distance
+          [left, right].forEach((childNode, side) => {
+            const child = this.createCluster(
+              this.getHierarchyPoints(childNode, hierarchy),
+              distance
+            );
+            child.children.forEach((p) => minReach.set(p, distance));
+            child.parent = cluster;
+            if (side === 0) {
+              cluster.leftChild = child;
+            } else {
+              cluster.rightChild = child;
+            }
+            condensed.push(child);
+            queue.push([child, childNode]);
+          });
+          node = -1;
+        } else if (isLeftCluster || isRightCluster) {
+          const [kept, dropped] = isLeftCluster ? [left, right] : [right, left];
+          this.getHierarchyPoints(dropped, hierarchy).forEach((p) =>
+            minReach.set(p, distance)
+          );
+          node = kept;
+        } else {
+          this.getHierarchyPoints(node, hierarchy).forEach((p) =>
+            minReach.set(p, distance)
+          );
+          node = -1;
+        }
+      }
+
+      // the cluster ran down to a single point, which never falls out
+      if (node >= 0) {
+        minReach.set(node, cluster.birthDistance);
+      }
+
+      cluster.leaveEdgeWeight = Infinity;
+      minReach.forEach((epsilon) => {
+        cluster.leaveEdgeWeight = Math.min(cluster.leaveEdgeWeight, epsilon);
+      });
+    }
 
-    this.log(
-      "Condensed hierarchy:",
-      condensed.map((c) => ({
+    this.debug("Condensed hierarchy", () => ({
+      clusters: condensed.map((c) => ({
         id: c.id,
-        pointCount: this.getClusterPoints(c).size,
         size: c.size,
-        minRequired: this.minClusterSize
+        birthDistance: c.birthDistance,
+        leaveEdgeWeight: c.leaveEdgeWeight,
+        leftChild: c.leftChild?.id,
+        rightChild: c.rightChild?.id
       }))
-    );
+    }));
 
     return condensed;
   }
 
-  // Step 5: Extract stable clusters
-  private extractClusters(
+  // Flattens the condensed clusters into the public table, numbering
+  // clusters after the points
+  private buildCondensedTree(
     condensedHierarchy: Cluster[],
-    data: number[][]
-  ): void {
-    this.log("\nStarting cluster extraction:");
-    this.log(
-      "Full hierarchy:",
-      condensedHierarchy.map((c) => ({
+    n: number
+  ): CondensedTree {
+    const rows: CondensedTreeRow[] = [];
+    const byLambda = (a: CondensedTreeRow, b: CondensedTreeRow) =>
+      a.lambdaVal === b.lambdaVal ? 0 : a.lambdaVal < b.lambdaVal ? -1 : 1;
+
+    condensedHierarchy.forEach((cluster) => {
+      const parent = n + cluster.id;
+      const childClusters = [cluster.leftChild, cluster.rightChild].filter(
+        (child): child is Cluster => child !== undefined
+      );
+      const pointsInChildren = new Set<number>();
+      childClusters.forEach((child) =>
+        child.children.forEach((p) => pointsInChildren.add(p))
+      );
+
+      const clusterRows: CondensedTreeRow[] = [];
+      // points that fell out of this cluster rather than a descendant
+      cluster.children.forEach((p) => {
+        if (!pointsInChildren.has(p)) {
+          clusterRows.push({
+            parent,
+            child: p,
+            lambdaVal: 1 / cluster.minReachabilityMap.get(p)!,
+            childSize: 1
+          });
+        }
+      });
+      childClusters.forEach((child) => {
+        clusterRows.push({
+          parent,
+          child: n + child.id,
+          lambdaVal: 1 / child.birthDistance,
+          childSize: child.size
+        });
+      });
+      clusterRows.sort(byLambda).forEach((row) => rows.push(row));
+    });
+
+    return new CondensedTree(rows, n);
+  }
+
+  // Step 5: Extract stable clusters
+  private extractClusters(condensedHierarchy: Cluster[], data: Point[]): void {
+    this.debug("Starting cluster extraction");
+
+    condensedHierarchy.forEach((cluster) => {
+      cluster.stability = this.calculateClusterStability(
+        cluster,
+        this.getClusterPoints(cluster)
+      );
+    });
+
+    let selectedClusters =
+      this.clusterSelectionMethod === "leaf"
+        ? this.selectLeafClusters(condensedHierarchy)
+        : this.selectExcessOfMassClusters(condensedHierarchy);
+    if (this.clusterSelectionEpsilon > 0) {
+      selectedClusters = this.mergeEpsilonClusters(selectedClusters);
+    }
+
+    this.debug("Final selected clusters", () => ({
+      clusters: Array.from(selectedClusters).map((c) => ({
         id: c.id,
         size: c.size,
-        distance: c.distance,
-        children: c.children,
-        maxEdgeWeight: c.maxEdgeWeight,
-        minReachabilities: Array.from(c.minReachabilityMap!.entries())
+        stability: c.stability
       }))
-    );
+    }));
+
+    this.assignClusterLabels(selectedClusters, data);
+    this.exemplars_ = this.findExemplars();
+    this.describeClusters();
+  }
 
+  // Excess of mass: walking bottom-up, a cluster is kept when it is at least
+  // as stable as the best selection among its descendants.
+  private selectExcessOfMassClusters(
+    condensedHierarchy: Cluster[]
+  ): Set<Cluster> {
     const selectedClusters = new Set<Cluster>();
+    const subtreeStability = new Map<number, number>();
 
-    const discardedClusters = new Set<number>();
+    const discardDescendants = (cluster: Cluster) => {
+      [cluster.leftChild, cluster.rightChild].forEach((child) => {
+        if (child) {
+          selectedClusters.delete(child);
+          discardDescendants(child);
+        }
+      });
+    };
 
-    const processCluster = (cluster: Cluster) => {
-      if (discardedClusters.has(cluster.id)) {
-        return;
+    // clusters are created breadth-first, so children come after parents
+    for (let i = condensedHierarchy.length - 1; i >= 0; i--) {
+      const cluster = condensedHierarchy[i];
+      const stability = cluster.stability!;
+
+      const isSkipped = !this.isSelectable(cluster);
+      if (!cluster.leftChild || !cluster.rightChild) {
+        if (!isSkipped) {
+          selectedClusters.add(cluster);
+        }
+        subtreeStability.set(cluster.id, isSkipped ? 0 : stability);
+        continue;
       }
-      this.log(`\nProcessing cluster ${cluster.id}:`, {
-        children: cluster.children,
-        distance: cluster.distance,
-        maxEdgeWeight: cluster.maxEdgeWeight,
-        discardedClusters: discardedClusters
-      });
 
-      const clusterPoints = this.getClusterPoints(cluster);
-      let stability = this.calculateClusterStability(cluster, clusterPoints);
+      const childrenStability =
+        subtreeStability.get(cluster.leftChild.id)! +
+        subtreeStability.get(cluster.rightChild.id)!;
 
-      // Find all children in hierarchy
-      const childClusters = condensedHierarchy.filter(
-        (c) =>
-          c.id !== cluster.id && // Exclude self
-          c.distance <= cluster.distance && // Include same level
-          c.children.every((p) => cluster.children.includes(p)) // Must be subset
-      );
+      this.debug("Stability comparison", () => ({
+        currentCluster: { id: cluster.id, stability },
+        totalChildrenStability: childrenStability
+      }));
 
-      this.log(
-        `Found ${childClusters.length} immediate children:`,
-        childClusters.map((c) => ({
-          id: c.id,
-          children: c.children,
-          distance: c.distance,
-          maxEdgeWeight: c.maxEdgeWeight
-        }))
-      );
+      if (isSkipped || childrenStability > stability) {
+        subtreeStability.set(cluster.id, childrenStability);
+      } else {
+        this.debug("Selected cluster over its children", () => ({
+          cluster: cluster.id,
+          stability,
+          childrenStability
+        }));
+        discardDescendants(cluster);
+        selectedClusters.add(cluster);
+        subtreeStability.set(cluster.id, stability);
+      }
+    }
 
-      const childrenStabilities = childClusters.map((c) => {
-        const stability = this.calculateClusterStability(
-          c,
-          this.getClusterPoints(c)
-        );
-        c.stability = stability;
-        return { id: c.id, stability };
-      });
+    return selectedClusters;
+  }
 
-      const childrenStability = childrenStabilities.reduce(
-        (sum, c) => sum + c.stability,
-        0
-      );
+  // The root only when a single cluster is allowed (by default, as in
+  // scikit-learn, it is not) and the data has minClusterSize points, and
+  // nothing above maxClusterSize. Clusters that are too large hand their
+  // points down to their children, or to noise when they never split.
+  private isSelectable(cluster: Cluster): boolean {
+    return (
+      (cluster.parent !== undefined ||
+        (this.allowSingleCluster && cluster.size >= this.minClusterSize)) &&
+      cluster.size <= this.maxClusterSize
+    );
+  }
 
-      this.log("Stability comparison:", {
-        currentCluster: {
-          id: cluster.id,
-          stability,
-          clusterPoints: cluster.children
-        },
-        childrenStabilities,
-        totalChildrenStability: childrenStability
-      });
+  // Leaf selection: every cluster that never splits again, giving many small
+  // homogeneous clusters instead of the most persistent ones
+  private selectLeafClusters(condensedHierarchy: Cluster[]): Set<Cluster> {
+    const leaves = condensedHierarchy.filter(
+      (cluster) => !cluster.leftChild && this.isSelectable(cluster)
+    );
+    return new Set(leaves);
+  }
 
-      cluster.stability = stability;
-      if (cluster.id === 0 && this.shouldSkipRootCluster) {
-        stability = 0;
-        cluster.stability = stability;
+  // Replaces clusters born below clusterSelectionEpsilon with their closest
+  // ancestor born above it, so that nothing is split below that distance:
+  // DBSCAN-like above epsilon, HDBSCAN below it
+  private mergeEpsilonClusters(selectedClusters: Set<Cluster>): Set<Cluster> {
+    const merged = new Set<Cluster>();
+
+    selectedClusters.forEach((cluster) => {
+      let current = cluster;
+      while (current.birthDistance < this.clusterSelectionEpsilon) {
+        const parent = current.parent;
+        if (!parent || !this.isSelectable(parent)) break;
+        current = parent;
       }
+      merged.add(current);
+    });
 
-      if (
-        (stability > childrenStability &&
-          clusterPoints.size >= this.minClusterSize) ||
-        childClusters.every((c) => c.children.length < this.minClusterSize)
-      ) {
-        this.log(
-          `Selected cluster ${cluster.id} - better stability than children: ${stability} > ${childrenStability}`
-        );
-        selectedClusters.add(cluster);
-        childClusters.map((cc) => discardedClusters.add(cc.id));
-      } else {
-        discardedClusters.add(cluster.id);
-        this.log(
-          `Processing children of cluster ${cluster.id} - children have better stability`,
-          childClusters.map((c) => ({
-            id: c.id,
-            points: c.children,
-            stability: c.stability
-          }))
-        );
-        childClusters
-          .filter(
-            (c) => c.size >= this.minClusterSize && !discardedClusters.has(c.id)
-          )
-          .forEach(processCluster);
+    // merging can swallow other selections made further down the tree
+    const hasSelectedAncestor = (cluster: Cluster) => {
+      for (let c = cluster.parent; c; c = c.parent) {
+        if (merged.has(c)) return true;
       }
+      return false;
     };
+    const result = new Set<Cluster>();
+    merged.forEach((cluster) => {
+      if (!hasSelectedAncestor(cluster)) {
+        result.add(cluster);
+      }
+    });
 
-    if (condensedHierarchy.length > 0) {
-      processCluster(condensedHierarchy[0]);
+    this.debug("Clusters after epsilon merge", () => ({
+      epsilon: this.clusterSelectionEpsilon,
+      before: Array.from(selectedClusters).map((c) => c.id),
+      after: Array.from(result).map((c) => c.id)
+    }));
+
+    return result;
+  }
+
+  private findExemplars(): number[][][] {
+    if (this.distance === null || this.sparse) {
+      return [];
     }
+    return this.selectedClusterIds.map((cluster) =>
+      clusterExemplars(this.condensedTree_, cluster).map((point) =>
+        rowToArray(this.data[point] as Vector)
+      )
+    );
+  }
 
-    this.log(
-      "\nFinal selected clusters:",
-      Array.from(selectedClusters).map((c) => ({
-        id: c.id,
-        size: c.size,
-        stability: c.stability,
-        children: c.children,
-        maxEdgeWeight: c.maxEdgeWeight
-      }))
+  private describeClusters(): void {
+    const tree = this.condensedTree_;
+    const sizes = this.selectedClusterIds.map(() => 0);
+    const probabilitySums = this.selectedClusterIds.map(() => 0);
+    this.labels_.forEach((label, point) => {
+      if (label === -1) return;
+      sizes[label]++;
+      probabilitySums[label] += this.probabilities_[point];
+    });
+    // largest finite lambda of the whole tree; duplicates reach infinity
+    const maxLambda = tree.rows.reduce(
+      (max, row) =>
+        Number.isFinite(row.lambdaVal) ? Math.max(max, row.lambdaVal) : max,
+      0
     );
 
-    this.assignClusterLabels(selectedClusters, data);
+    this.clusterInfo_ = this.selectedClusterIds.map((cluster, label) => {
+      const stability = tree.stability(cluster);
+      const size = sizes[label];
+      return {
+        label,
+        size,
+        birthLambda: tree.row(cluster)?.lambdaVal ?? 0,
+        deathLambda: clusterMaxLambda(tree, cluster),
+        stability,
+        persistence:
+          Number.isFinite(stability) && maxLambda > 0
+            ? Math.min(1, stability / (size * maxLambda))
+            : 1,
+        meanProbability: probabilitySums[label] / size
+      };
+    });
+    this.clusterPersistence_ = this.clusterInfo_.map(
+      ({ persistence }) => persistence
+    );
   }
 
   private calculateClusterStability(
@@ -526,58 +1109,54 @@ export class HDBSCAN {
     points: Set<number>
   ): number {
     let stability = 0;
-    const epsilon_max = cluster.birthDistance!;
+    const epsilonMax = cluster.birthDistance;
 
     // S(C_i) = Σ (1/ε_min(x_j, C_i) - 1/ε_max(C_i))
-    stability += (1 / cluster.leaveEdgeWeight - 1 / epsilon_max) * points.size;
-    // points.forEach((point) => {
-    //   const epsilon_min = cluster.minReachabilityMap!.get(point)!;
-    //   stability += 1 / cluster.leaveEdgeWeight - 1 / epsilon_max;
-    // });
+    points.forEach((point) => {
+      const epsilonMin = cluster.minReachabilityMap.get(point)!;
+      stability += 1 / epsilonMin - 1 / epsilonMax;
+    });
 
-    this.log(`Stability calculation for cluster ${cluster.id}:`, {
+    this.debug("Calculated cluster stability", () => ({
+      cluster: cluster.id,
       pointsCount: points.size,
-      epsilon_max,
-      minReachabilities: JSON.stringify(
-        Array.from(cluster.minReachabilityMap!.entries())
-      ),
+      epsilonMax,
       stability,
-      birthDistance: cluster.birthDistance,
       leaveEdgeWeight: cluster.leaveEdgeWeight
-    });
+    }));
 
     return stability;
   }
 
   private assignClusterLabels(
     selectedClusters: Set<Cluster>,
-    data: number[][]
+    data: Point[]
   ): void {
     const n = data.length;
     this.labels_ = new Array(n).fill(-1);
     this.probabilities_ = new Array(n).fill(0);
 
-    let currentLabel = 0;
-    selectedClusters.forEach((cluster) => {
-      const points = this.getClusterPoints(cluster);
-      // Only assign labels if we have enough points
-      if (points.size >= this.minClusterSize) {
-        points.forEach((point) => {
-          this.labels_[point] = currentLabel;
-          this.probabilities_[point] = this.calculateMembership(point, cluster);
-        });
-        currentLabel++;
-      }
+    // number clusters by their first point so labels do not depend on how
+    // the spanning tree happened to be built
+    const firstPoint = (cluster: Cluster) =>
+      cluster.children.reduce((min, p) => Math.min(min, p), Infinity);
+    const orderedClusters = Array.from(selectedClusters).sort(
+      (a, b) => firstPoint(a) - firstPoint(b)
+    );
+    this.selectedClusterIds = orderedClusters.map((cluster) => n + cluster.id);
+    orderedClusters.forEach((cluster, currentLabel) => {
+      this.getClusterPoints(cluster).forEach((point) => {
+        this.labels_[point] = currentLabel;
+        this.probabilities_[point] = this.calculateMembership(point, cluster);
+      });
     });
 
-    this.log("Assigning labels:", {
-      selectedClusters: Array.from(selectedClusters).map((c) => ({
+    this.debug("Assigning labels", () => ({
+      selectedClusters: orderedClusters.map((c) => ({
         id: c.id,
-        points: Array.from(this.getClusterPoints(c)),
-        size: this.getClusterPoints(c).size,
-        minRequired: this.minClusterSize
+        size: c.size
       }))
-    });
+    }));
   }
 
   private getClusterPoints(cluster: Cluster): Set<number> {
@@ -586,88 +1165,994 @@ export class HDBSCAN {
   }
 
   private calculateMembership(point: number, cluster: Cluster): number {
-    // Calculate probability based on the point's relative density in the cluster
-    const epsilon_min = cluster.minReachabilityMap!.get(point)!;
-    const epsilon_max = cluster.maxEdgeWeight!;
+    // λ_p / λ_max: how long the point stays in the cluster relative to the
+    // points that stay the longest
+    const lambdaPoint = 1 / cluster.minReachabilityMap.get(point)!;
+    // the smallest distance at which any point leaves is the largest λ
+    const lambdaMax = 1 / cluster.leaveEdgeWeight;
+    if (lambdaPoint === lambdaMax) {
+      return 1;
+    }
+    return lambdaPoint / lambdaMax;
+  }
 
-    // Membership is based on how close the point's min distance is to the cluster's max
-    return 1 - epsilon_min / epsilon_max;
+  // Main fit method. data is an array of rows, a row-major Float32Array or
+  // Float64Array with the number of dimensions per row, or sparse rows.
+  public fit(data: DataInput, dimensions?: number): number[] {
+    return runSteps(
+      this.fitSteps(new ProgressReporter(this.onProgress), data, dimensions)
+    );
   }
 
-  private getMinReachability(
-    point: number,
-    clusterPoints: number[],
-    sortedEdges: [number, number, number][]
-  ): number {
-    this.log(
-      `\nFinding min reachability for point ${point} in cluster ${clusterPoints}:`
+  private *fitSteps(
+    progress: ProgressReporter,
+    data: DataInput,
+    dimensions?: number
+  ): Steps<number[]> {
+    this.progress = progress;
+    const { rows: input, sparse } = toPoints(data, dimensions);
+    const rows = copyPoints(input, sparse);
+    const algorithm = this.startFit(rows, sparse);
+    const n = rows.length;
+
+    let mst: SpanningTree;
+    if (algorithm === "generic") {
+      // Step 1: Transform space
+      const mutualReachabilityDist =
+        yield* this.computeMutualReachabilityDistance(rows);
+      this.debug("Computed mutual reachability distances", () => ({
+        mutualReachabilityDist
+      }));
+      // Step 2: Build MST
+      mst = yield* primSpanningTreeSteps(
+        n,
+        (i, j) => mutualReachabilityDist[i * n + j],
+        (fraction) => progress.report("mst", fraction)
+      );
+    } else {
+      // only dense input gets a tree
+      const vectors = rows as Vector[];
+      const tree = this.buildTree(vectors, algorithm);
+      // Step 1: Transform space, keeping only the core distances
+      const coreDistances = yield* this.computeCoreDistances(vectors, tree);
+      this.debug("Computed core distances", () => ({ coreDistances }));
+      // Step 2: Build MST, computing mutual reachability on the fly
+      mst = yield* this.buildTreeSpanningTree(
+        vectors,
+        algorithm,
+        tree,
+        coreDistances
+      );
+    }
+
+    return this.finishFit(rows, mst);
+  }
+
+  // Same result as fit, with the pairwise distances (generic) or k-NN
+  // queries (tree algorithms) split across worker threads in row blocks.
+  // Custom metric functions cannot be sent to a worker, so those fit on the
+  // main thread. Aborting the signal terminates the workers and rejects;
+  // work on the main thread gives the event loop a turn every few
+  // milliseconds, within stages too, and stops at the next one. An aborted
+  // fit leaves the model unfitted.
+  public async fitAsync(
+    data: DataInput,
+    { workers = defaultWorkerCount(), dimensions, signal }: FitAsyncOptions = {}
+  ): Promise<number[]> {
+    if (!Number.isInteger(workers) || workers < 1) {
+      throw new InvalidParameterError(
+        "workers",
+        `workers must be an integer of at least 1, got ${workers}`
+      );
+    }
+    try {
+      return await this.fitInWorkers(data, dimensions, workers, signal);
+    } catch (error) {
+      if (signal?.aborted) {
+        this.resetFit([], false);
+        this.clearResults();
+      }
+      throw error;
+    }
+  }
+
+  private async fitInWorkers(
+    data: DataInput,
+    dimensions: number | undefined,
+    workers: number,
+    signal?: AbortSignal
+  ): Promise<number[]> {
+    const progress = new ProgressReporter(this.onProgress, signal);
+    // let an abort that is already queued land first
+    await nextTurn();
+    progress.throwIfAborted();
+    const { rows: input, sparse } = toPoints(data, dimensions);
+    const metric = this.metric;
+    if (typeof metric === "function" || workers === 1 || input.length < 2) {
+      return runStepsAsync(this.fitSteps(progress, data, dimensions), progress);
+    }
+
+    this.progress = progress;
+    const rows = copyPoints(input, sparse);
+    const algorithm = this.startFit(rows, sparse);
+    const n = rows.length;
+    // flat buffers are sent whole rather than as one view per row
+    const task = { data, dimensions, p: this.p };
+
+    let mst: SpanningTree;
+    if (algorithm === "generic") {
+      // the workers write straight into the one matrix, so it is never
+      // held twice; a precomputed one is copied and validated up front
+      const matrix = new SharedArrayBuffer(n * n * 8);
+      const distanceMatrix = new Float64Array(matrix);
+      if (metric === "precomputed") {
+        await runStepsAsync(
+          this.computeDistanceMatrix(rows, distanceMatrix),
+          progress
+        );
+      } else {
+        await runInWorkers<DistanceTask>(
+          { ...task, kind: "distances", metric, matrix },
+          n,
+          workers,
+          {
+            signal,
+            balance: "pairs",
+            onBlock: (done, total) =>
+              progress.report("coreDistances", done / total / 2)
+          }
+        );
+      }
+      const blocks = await runInWorkers<CoreDistanceTask>(
+        { kind: "coreDistances", matrix, n, minSamples: this.minSamples },
+        n,
+        workers,
+        {
+          signal,
+          onBlock: (done, total) =>
+            progress.report("coreDistances", 0.5 + done / total / 2)
+        }
+      );
+      const coreDistances = blocks.flatMap(({ coreDistances }) =>
+        Array.from(coreDistances)
+      );
+      const mutualReachabilityDist = await runStepsAsync(
+        this.applyMutualReachability(distanceMatrix, coreDistances),
+        progress
+      );
+      mst = await runStepsAsync(
+        primSpanningTreeSteps(
+          n,
+          (i, j) => mutualReachabilityDist[i * n + j],
+          (fraction) => progress.report("mst", fraction)
+        ),
+        progress
+      );
+    } else {
+      const blocks = await runInWorkers<TreeTask>(
+        {
+          ...task,
+          kind: "tree",
+          metric: metric as MetricName,
+          minSamples: this.minSamples,
+          tree: algorithm.endsWith("_balltree") ? "balltree" : "kdtree",
+          leafSize: this.leafSize
+        },
+        n,
+        workers,
+        {
+          signal,
+          onBlock: (done, total) =>
+            progress.report("coreDistances", done / total)
+        }
+      );
+      const coreDistances = blocks.flatMap(({ coreDistances }) =>
+        Array.from(coreDistances)
+      );
+      this.mutualReachabilityDistance = new Float64Array(0);
+      this.coreDistances = coreDistances;
+      const vectors = rows as Vector[];
+      await nextTurn();
+      const tree = this.buildTree(vectors, algorithm);
+      mst = await runStepsAsync(
+        this.buildTreeSpanningTree(vectors, algorithm, tree, coreDistances),
+        progress
+      );
+    }
+
+    await nextTurn();
+    return this.finishFit(rows, mst);
+  }
+
+  // Adds points to a fitted model without refitting from scratch. Only
+  // fitted points that gain one of the new points among their nearest
+  // neighbors get a new core distance, found with radius queries, and the
+  // spanning tree is repaired from the old tree plus the edges of the new
+  // points and the edges of updated points that got cheaper, which gives the
+  // same tree a full fit would. The condensed tree and labels are
+  // then rebuilt, with each cluster keeping the label of the old cluster it
+  // shares the most points with, so labels only move where membership did.
+  // Takes the same input as fit; on an unfitted model it is fit.
+  public partialFit(newPoints: DataInput, dimensions?: number): number[] {
+    if (this.distance === null) {
+      throw new UnsupportedOperationError(
+        "partialFit needs feature vectors and does not support the precomputed metric"
+      );
+    }
+    if (this.data.length === 0) {
+      return this.fit(newPoints, dimensions);
+    }
+
+    const fittedDimensions = this.sparse ? 0 : (this.data[0] as Vector).length;
+    const { rows, sparse } = toPoints(
+      newPoints,
+      Array.isArray(newPoints) ? undefined : (dimensions ?? fittedDimensions)
+    );
+    if (rows.length === 0) {
+      return this.labels_;
+    }
+    if (sparse !== this.sparse) {
+      const kind = (isSparse: boolean) => (isSparse ? "sparse" : "dense");
+      throw new InvalidInputError(
+        `partialFit got ${kind(sparse)} points for a model fitted on ${kind(
+          this.sparse
+        )} data`
+      );
+    }
+    rows.forEach((point, i) => {
+      const length = (point as Vector).length;
+      if (!sparse && length !== fittedDimensions) {
+        throw new InvalidInputError(
+          `Point ${i} has ${length} dimensions, the model was fitted on ${fittedDimensions}`
+        );
+      }
+    });
+
+    this.progress = new ProgressReporter(this.onProgress);
+    const previousLabels = this.labels_;
+    const previousTree: SpanningTree = {
+      from: Int32Array.from(this.minimumSpanningTree_, ([from]) => from),
+      to: Int32Array.from(this.minimumSpanningTree_, ([, to]) => to),
+      weights: Float64Array.from(
+        this.minimumSpanningTree_,
+        ([, , weight]) => weight
+      )
+    };
+    const fittedCount = this.data.length;
+    const data = [...this.data, ...copyPoints(rows, sparse)];
+    const n = data.length;
+    this.resetFit(data, sparse);
+    const index = (this.neighborIndex = this.buildNeighborIndex());
+    // the query returns the point itself first, at distance 0
+    const k = Math.min(this.minSamples, n - 1) + 1;
+    const coreDistance = (i: number) =>
+      index.query(data[i], k).distances[k - 1];
+
+    // a fitted point only moves when a new point lands closer than its old
+    // core distance, so querying around the new points out to the largest
+    // old core distance finds all of them
+    const previousCore = this.coreDistances;
+    const isAffected = new Uint8Array(n);
+    if (fittedCount - 1 < this.minSamples) {
+      // with fewer points than minSamples every core distance was capped by
+      // the size of the data, so all of them move
+      isAffected.fill(1, 0, fittedCount);
+    } else {
+      const radius = previousCore.reduce((max, core) => Math.max(max, core));
+      rows.forEach((point, r) => {
+        this.progress.report("coreDistances", r / rows.length);
+        const { indices, distances } = index.queryRadius(point, radius);
+        indices.forEach((i, found) => {
+          if (i < fittedCount && distances[found] < previousCore[i]) {
+            isAffected[i] = 1;
+          }
+        });
+      });
+    }
+    const affected: number[] = [];
+    const coreDistances = previousCore.slice();
+    for (let i = 0; i < n; i++) {
+      if (i >= fittedCount || isAffected[i]) {
+        coreDistances[i] = coreDistance(i);
+        affected.push(i);
+      }
+    }
+    this.mutualReachabilityDistance = new Float64Array(0);
+    this.coreDistances = coreDistances;
+    this.debug("partialFit affected points", () => ({ affected }));
+    this.progress.report("mst", 0);
+
+    const mst =
+      index instanceof BinarySpaceTree && rows.length > Math.log2(n)
+        ? // each new point brings an edge to every point, so with more than
+          // about log n of them Borůvka over the tree is the cheaper way
+          runSteps(
+            this.buildTreeSpanningTree(
+              data as Vector[],
+              "boruvka_kdtree",
+              index,
+              coreDistances
+            )
+          )
+        : this.repairTreeEdges(previousTree, previousCore, affected);
+    this.finishFit(data, mst);
+
+    const mapping = matchLabels(
+      previousLabels,
+      this.labels_,
+      this.selectedClusterIds.length
     );
+    const selectedClusterIds: number[] = [];
+    mapping.forEach(
+      (label, current) =>
+        (selectedClusterIds[label] = this.selectedClusterIds[current])
+    );
+    this.selectedClusterIds = selectedClusterIds;
+    this.labels_ = this.labels_.map((label) =>
+      label === -1 ? -1 : mapping[label]
+    );
+    this.exemplars_ = this.findExemplars();
+    this.describeClusters();
+    return this.labels_;
+  }
 
-    const relevantEdges = sortedEdges.filter(
-      ([s, d]) =>
-        (s === point || d === point) && // Edge connects to this point
-        clusterPoints.includes(s) &&
-        clusterPoints.includes(d) // Both points in cluster
+  // Repairs the spanning tree of the points that had previousCore for the
+  // affected ones. An edge of a fitted point only got cheaper if its old
+  // core distance outweighed the direct distance, so a radius query around
+  // it finds all of them; new points take an edge to every point.
+  private repairTreeEdges(
+    previousTree: SpanningTree,
+    previousCore: number[],
+    affected: number[]
+  ): SpanningTree {
+    const data = this.data;
+    const n = data.length;
+    const fittedCount = previousCore.length;
+    const distance = this.rowDistance!;
+    const index = this.neighborIndex!;
+    const coreDistances = this.coreDistances;
+    const everyPoint = Int32Array.from({ length: n }, (_, i) => i);
+    return repairSpanningTree(
+      n,
+      previousTree,
+      affected,
+      (i, j) =>
+        Math.max(
+          distance(data[i], data[j]) / this.alpha,
+          coreDistances[i],
+          coreDistances[j]
+        ),
+      (i) =>
+        i < fittedCount
+          ? index.queryRadius(data[i], this.alpha * previousCore[i]).indices
+          : everyPoint
     );
+  }
 
-    this.log(
-      "Relevant edges:",
-      relevantEdges.map(([s, d, w]) => ({
-        source: s,
-        dest: d,
-        weight: w
-      }))
+  // DBCV score of the fitted labels, see validityIndex. A precomputed
+  // matrix needs the number of features of the data it was computed from.
+  public validityIndex(dimensions?: number): ValidityResult {
+    if (this.data.length === 0) {
+      throw new NotFittedError(
+        "validityIndex requires a fitted model, call fit first"
+      );
+    }
+    return rowsValidity(
+      this.data,
+      this.sparse,
+      this.labels_,
+      this.metric,
+      this.p,
+      dimensions
+    );
+  }
+
+  // Resets the state of a previous fit and picks the algorithm for the data
+  private startFit(rows: Point[], sparse: boolean): ResolvedAlgorithm {
+    this.resetFit(rows, sparse);
+
+    const algorithm = resolveAlgorithm(
+      this.algorithm,
+      this.metric,
+      sparse ? 0 : ((rows[0] as Vector | undefined)?.length ?? 0),
+      sparse
+    );
+    this.debug("Resolved algorithm", () => ({ algorithm }));
+    return algorithm;
+  }
+
+  // Back to the state of a model that was never fitted
+  private clearResults(): void {
+    this.labels_ = [];
+    this.probabilities_ = [];
+    this.outlierScores_ = [];
+    this.exemplars_ = [];
+    this.clusterPersistence_ = [];
+    this.clusterInfo_ = [];
+    this.condensedTree_ = new CondensedTree([], 0);
+    this.singleLinkageTree_ = new SingleLinkageTree([], 0);
+    this.minimumSpanningTree_ = [];
+    this.timings_ = emptyTimings();
+    this.mutualReachabilityDistance = new Float64Array(0);
+    this.coreDistances = [];
+    this.selectedClusterIds = [];
+  }
+
+  private resetFit(rows: Point[], sparse: boolean): void {
+    this.nextClusterId = 0;
+    this.neighborIndex = null;
+    this.useRows(rows, sparse);
+  }
+
+  private useRows(rows: Point[], sparse: boolean): void {
+    this.data = rows;
+    this.sparse = sparse;
+    this.rowDistance = sparse
+      ? (resolveSparseMetric(this.metric) as PointDistance)
+      : (this.distance as PointDistance | null);
+  }
+
+  private buildTree(
+    data: Vector[],
+    algorithm: ResolvedAlgorithm
+  ): BinarySpaceTree {
+    const tree = algorithm.endsWith("_balltree")
+      ? new BallTree(data, this.distance!, this.leafSize)
+      : new KDTree(data, this.distance!, this.leafSize);
+    this.neighborIndex = tree;
+    return tree;
+  }
+
+  private buildTreeSpanningTree(
+    data: Vector[],
+    algorithm: ResolvedAlgorithm,
+    tree: BinarySpaceTree,
+    coreDistances: number[]
+  ): Steps<SpanningTree> {
+    const distance = this.distance!;
+    const alpha = this.alpha;
+    const onProgress = (fraction: number) =>
+      this.progress.report("mst", fraction);
+    return algorithm.startsWith("boruvka")
+      ? boruvkaSpanningTreeSteps(
+          tree,
+          data,
+          coreDistances,
+          distance,
+          alpha,
+          onProgress
+        )
+      : primSpanningTreeSteps(
+          data.length,
+          (i, j) =>
+            Math.max(
+              distance(data[i], data[j]) / alpha,
+              coreDistances[i],
+              coreDistances[j]
+            ),
+          onProgress
+        );
+  }
+
+  // Steps 3 to 5, shared by fit and fitAsync once the MST is known
+  private finishFit(data: Point[], mst: SpanningTree): number[] {
+    const n = data.length;
+
+    if (n === 0) {
+      // a hierarchy needs a root point; with none, every result is empty
+      this.clearResults();
+    } else {
+      // Step 3: Build hierarchy
+      this.progress.report("hierarchy", 0);
+      const hierarchy = this.buildClusterHierarchy(mst);
+      this.singleLinkageTree_ = new SingleLinkageTree(hierarchy, n);
+
+      // Step 4: Condense hierarchy
+      this.progress.report("condense", 0);
+      const condensedHierarchy = this.condenseHierarchy(hierarchy);
+      this.condensedTree_ = this.buildCondensedTree(condensedHierarchy, n);
+      this.outlierScores_ = outlierScores(this.condensedTree_);
+
+      // Step 5: Extract clusters
+      this.progress.report("extract", 0);
+      this.extractClusters(condensedHierarchy, data);
+    }
+    this.timings_ = this.progress.finish();
+    this.logger?.info("Fit finished", {
+      points: n,
+      clusters: this.selectedClusterIds.length,
+      noise: this.labels_.filter((label) => label === -1).length,
+      timings: this.timings_
+    });
+
+    return this.labels_;
+  }
+
+  // Labels new points against the fitted model without refitting. Each point
+  // gets a core distance from its nearest fitted neighbors and joins the
+  // condensed tree through the neighbor with the smallest mutual
+  // reachability, so labels and probabilities follow labels_ and
+  // probabilities_ (-1 and 0 for noise). A flat typed array is split into
+  // rows of the fitted dimensionality; a model fitted on sparse rows
+  // predicts sparse rows.
+  public approximatePredict(points: DataInput): PredictionResult {
+    if (this.distance === null) {
+      throw new UnsupportedOperationError(
+        "approximatePredict needs feature vectors and does not support the precomputed metric"
+      );
+    }
+    if (this.data.length === 0) {
+      throw new NotFittedError(
+        "approximatePredict requires a fitted model, call fit first"
+      );
+    }
+
+    const dimensions = this.sparse ? 0 : (this.data[0] as Vector).length;
+    const { rows, sparse } = toPoints(
+      points,
+      Array.isArray(points) ? undefined : dimensions
     );
-    this.log("relevantEdges: ", relevantEdges);
+    if (sparse !== this.sparse && rows.length > 0) {
+      const kind = (isSparse: boolean) => (isSparse ? "sparse" : "dense");
+      throw new InvalidInputError(
+        `approximatePredict got ${kind(sparse)} points for a model fitted on ${kind(
+          this.sparse
+        )} data`
+      );
+    }
+    const index = (this.neighborIndex ??= this.buildNeighborIndex());
+    const n = this.data.length;
+    const k = Math.min(this.minSamples, n);
+    const candidates = Math.min(2 * this.minSamples, n);
+
+    const labels: number[] = [];
+    const probabilities: number[] = [];
+    rows.forEach((point, i) => {
+      const length = (point as Vector).length;
+      if (!sparse && length !== dimensions) {
+        throw new InvalidInputError(
+          `Point ${i} has ${length} dimensions, the model was fitted on ${dimensions}`
+        );
+      }
+      const neighbors = index.query(point, candidates);
+      const coreDistance = neighbors.distances[k - 1];
+
+      // closest neighbor in mutual reachability, preferring the closer one
+      // in raw distance on ties
+      let nearest = -1;
+      let nearestReachability = Infinity;
+      neighbors.indices.forEach((neighbor, j) => {
+        const reachability = Math.max(
+          neighbors.distances[j] / this.alpha,
+          coreDistance,
+          this.coreDistances[neighbor]
+        );
+        if (nearest === -1 || reachability < nearestReachability) {
+          nearest = neighbor;
+          nearestReachability = reachability;
+        }
+      });
+
+      const [label, probability] = findClusterAndProbability(
+        this.condensedTree_,
+        this.selectedClusterIds,
+        nearest,
+        1 / nearestReachability
+      );
+      labels.push(label);
+      probabilities.push(probability);
+    });
+
+    return { labels, probabilities };
+  }
+
+  // Soft clustering: for every fitted point, its membership in each label.
+  // Unlike probabilities_, noise points still show which clusters they lean
+  // towards. Each vector sums to the probability of the point belonging to
+  // any cluster, so normalize it to get a pure mix of clusters.
+  public allPointsMembershipVectors(): number[][] {
+    if (this.data.length === 0) {
+      throw new NotFittedError(
+        "allPointsMembershipVectors requires a fitted model, call fit first"
+      );
+    }
+
+    const tree = this.condensedTree_;
+    const maxLambdas = new Map<number, number>();
+    tree
+      .clusters()
+      .forEach((cluster) =>
+        maxLambdas.set(cluster, clusterMaxLambda(tree, cluster))
+      );
+    const exemplars = this.selectedClusterIds.map((cluster) =>
+      clusterExemplars(tree, cluster)
+    );
+    const distance = this.rowDistance;
+    const pointDistance =
+      distance === null
+        ? (i: number, j: number) => (this.data[i] as Vector)[j]
+        : (i: number, j: number) => distance(this.data[i], this.data[j]);
+
+    return this.data.map((_, point) =>
+      membershipVector(
+        tree,
+        this.selectedClusterIds,
+        maxLambdas,
+        point,
+        exemplars.map((clusterPoints) =>
+          clusterPoints.reduce(
+            (min, exemplar) => Math.min(min, pointDistance(point, exemplar)),
+            Infinity
+          )
+        )
+      )
+    );
+  }
 
-    const minEdge = relevantEdges.reduce((min, [s, d, w]) => {
-      if (s === point || d === point) {
-        return Math.min(min, w);
+  // Mean of a cluster's points weighted by their membership probabilities
+  public weightedClusterCentroid(label: number): number[] {
+    const { points, weights } = this.weightedClusterPoints(
+      label,
+      "weightedClusterCentroid"
+    );
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    const centroid = new Array(points[0].length).fill(0);
+    points.forEach((point, i) => {
+      for (let d = 0; d < point.length; d++) {
+        centroid[d] += (point[d] * weights[i]) / total;
       }
-      return min;
-    }, Infinity);
-
-    this.log(`Min edge weight found: ${minEdge}`);
-    return minEdge;
-  }
-
-  private findClusterContainingPoints(
-    points: number[],
-    hierarchy: Cluster[]
-  ): Cluster | null {
-    // Search from newest to oldest clusters to find the smallest containing cluster
-    for (let i = hierarchy.length - 1; i >= 0; i--) {
-      const cluster = hierarchy[i];
-      if (points.every((p) => cluster.children.includes(p))) {
-        return cluster;
+    });
+    return centroid;
+  }
+
+  // The cluster's point with the smallest probability-weighted sum of
+  // distances to the rest of the cluster; unlike the centroid it is always
+  // one of the fitted points
+  public weightedClusterMedoid(label: number): number[] {
+    const { points, weights } = this.weightedClusterPoints(
+      label,
+      "weightedClusterMedoid"
+    );
+    const distance = this.distance!;
+    let medoid = 0;
+    let bestCost = Infinity;
+    points.forEach((point, i) => {
+      let cost = 0;
+      points.forEach((other, j) => {
+        cost += distance(point, other) * weights[j];
+      });
+      if (cost < bestCost) {
+        bestCost = cost;
+        medoid = i;
       }
+    });
+    return rowToArray(points[medoid]);
+  }
+
+  private weightedClusterPoints(
+    label: number,
+    method: string
+  ): { points: Vector[]; weights: number[] } {
+    if (this.distance === null) {
+      throw new UnsupportedOperationError(
+        `${method} needs feature vectors and does not support the precomputed metric`
+      );
+    }
+    if (this.sparse) {
+      throw new UnsupportedOperationError(
+        `${method} needs dense feature vectors`
+      );
     }
-    return null;
+    if (this.data.length === 0) {
+      throw new NotFittedError(
+        `${method} requires a fitted model, call fit first`
+      );
+    }
+    const numClusters = this.selectedClusterIds.length;
+    if (numClusters === 0) {
+      throw new InvalidParameterError(
+        "label",
+        `The model found no clusters, so ${method} has no label ${label} to use`
+      );
+    }
+    if (label === -1) {
+      throw new InvalidParameterError(
+        "label",
+        `${method} is not defined for noise (label -1)`
+      );
+    }
+    if (!Number.isInteger(label) || label < 0 || label >= numClusters) {
+      throw new InvalidParameterError(
+        "label",
+        `Unknown label ${label}, expected an integer from 0 to ${
+          numClusters - 1
+        }`
+      );
+    }
+
+    const points: Vector[] = [];
+    const weights: number[] = [];
+    this.labels_.forEach((pointLabel, i) => {
+      if (pointLabel === label) {
+        points.push(this.data[i] as Vector);
+        weights.push(this.probabilities_[i]);
+      }
+    });
+    return { points, weights };
   }
 
-  // Main fit method
-  public fit(data: number[][]): number[] {
-    // Step 1: Transform space
-    const mutualReachabilityDist = this.computeMutualReachabilityDistance(data);
-    this.log("mutualReachabilityDist: ", mutualReachabilityDist);
-    // Step 2: Build MST
-    const mst = this.buildMinimumSpanningTree(mutualReachabilityDist);
-    this.sortedEdges = mst;
-    // Step 3: Build hierarchy
-    const hierarchy = this.buildClusterHierarchy(mst);
+  // Serializable snapshot of the parameters and everything fit produced,
+  // enough to inspect the model or predict with it after HDBSCAN.fromJSON
+  public toJSON(): HDBSCANJSON {
+    if (typeof this.metric === "function") {
+      throw new UnsupportedOperationError(
+        "Models with a custom metric function cannot be serialized"
+      );
+    }
+    return {
+      version: MODEL_FORMAT_VERSION,
+      params: {
+        minClusterSize: this.minClusterSize,
+        minSamples: this.minSamples,
+        alpha: this.alpha,
+        metric: this.metric,
+        p: this.p,
+        algorithm: this.algorithm,
+        leafSize: this.leafSize,
+        clusterSelectionMethod: this.clusterSelectionMethod,
+        clusterSelectionEpsilon: this.clusterSelectionEpsilon,
+        allowSingleCluster: this.allowSingleCluster,
+        maxClusterSize: Number.isFinite(this.maxClusterSize)
+          ? this.maxClusterSize
+          : null
+      },
+      labels: this.labels_,
+      probabilities: this.probabilities_,
+      minimumSpanningTree: this.minimumSpanningTree_,
+      condensedTree: this.condensedTree_.toJSON(),
+      data: this.sparse
+        ? (this.data as SparseVector[]).map(({ indices, values }) => ({
+            indices: Array.from(indices),
+            values: Array.from(values)
+          }))
+        : (this.data as Vector[]).map(rowToArray),
+      coreDistances: this.coreDistances,
+      selectedClusterIds: this.selectedClusterIds
+    };
+  }
 
-    // Step 4: Condense hierarchy
-    const condensedHierarchy = this.condenseHierarchy(hierarchy);
+  static fromJSON(json: HDBSCANJSON): HDBSCAN {
+    if (json?.version !== MODEL_FORMAT_VERSION) {
+      throw new InvalidInputError(
+        `Unsupported HDBSCAN model format version ${json?.version}, expected ${MODEL_FORMAT_VERSION}`
+      );
+    }
+    validateModelJSON(json);
 
-    // Step 5: Extract clusters
-    this.extractClusters(condensedHierarchy, data);
+    const model = new HDBSCAN({
+      ...json.params,
+      maxClusterSize: json.params.maxClusterSize ?? Infinity
+    });
+    model.labels_ = json.labels;
+    model.probabilities_ = json.probabilities;
+    const { rows, sparse } = toPoints(json.data);
+    model.useRows(copyPoints(rows, sparse), sparse);
+    model.coreDistances = json.coreDistances;
+    model.selectedClusterIds = json.selectedClusterIds;
+    model.condensedTree_ = CondensedTree.fromJSON(json.condensedTree);
+    // the single linkage tree is fully determined by the spanning tree
+    const edges = json.minimumSpanningTree;
+    model.singleLinkageTree_ = new SingleLinkageTree(
+      edges.length > 0
+        ? model.buildClusterHierarchy({
+            from: Int32Array.from(edges, ([from]) => from),
+            to: Int32Array.from(edges, ([, to]) => to),
+            weights: Float64Array.from(edges, ([, , weight]) => weight)
+          })
+        : [],
+      json.data.length
+    );
+    model.minimumSpanningTree_ = json.minimumSpanningTree;
+    model.outlierScores_ = outlierScores(model.condensedTree_);
+    model.exemplars_ = model.findExemplars();
+    model.describeClusters();
+    return model;
+  }
 
-    return this.labels_;
+  // k-NN search over the fitted data when fit did not leave a tree behind
+  private buildNeighborIndex(): SpatialIndex<Point> {
+    return !this.sparse &&
+      typeof this.metric === "string" &&
+      (KD_TREE_METRICS as string[]).includes(this.metric)
+      ? new KDTree(this.data as Vector[], this.distance!, this.leafSize)
+      : new BruteForceIndex(this.data, this.rowDistance!);
   }
 
-  private log(...args: any[]) {
-    if (this.debugMode) {
-      console.log("[HDBSCAN]", ...args);
+  // fields is only called when the logger has debug enabled, so payloads as
+  // large as the distance matrix cost nothing otherwise
+  private debug(message: string, fields?: () => LogFields): void {
+    const logger = this.logger;
+    if (logger && (logger.isLevelEnabled?.("debug") ?? true)) {
+      logger.debug(message, fields?.());
     }
   }
 }
+
+// Density-based clustering validation (Moulavi et al., 2014) of any
+// labelling of the data, e.g. to compare parameter settings without ground
+// truth. Each cluster is scored by how much wider the mutual reachability gap
+// to its closest other cluster is than the widest gap inside it, from -1 to
+// 1, and the overall score weighs clusters by size over all points, noise
+// included. Takes the same data as HDBSCAN.fit; -1 labels are noise.
+export function validityIndex(
+  data: DataInput,
+  labels: number[],
+  { metric = "euclidean", p = 2, dimensions }: ValidityOptions = {}
+): ValidityResult {
+  const { rows, sparse } = toPoints(
+    data,
+    Array.isArray(data) ? undefined : dimensions
+  );
+  return rowsValidity(rows, sparse, labels, metric, p, dimensions);
+}
+
+function rowsValidity(
+  rows: Point[],
+  sparse: boolean,
+  labels: number[],
+  metric: Metric | "precomputed",
+  p: number,
+  dimensions?: number
+): ValidityResult {
+  if (labels.length !== rows.length) {
+    throw new InvalidInputError(
+      `Got ${labels.length} labels for ${rows.length} points`
+    );
+  }
+  labels.forEach((label, i) => {
+    if (!Number.isInteger(label) || label < -1) {
+      throw new InvalidInputError(
+        `Label ${i} is ${label}, expected an integer of at least -1 (noise)`
+      );
+    }
+  });
+  if (metric === "precomputed") {
+    if (dimensions === undefined) {
+      throw new InvalidParameterError(
+        "dimensions",
+        "validityIndex needs the number of dimensions of the data behind a precomputed matrix"
+      );
+    }
+    const matrix = rows as Vector[];
+    validateDistanceMatrix(matrix);
+    return densityBasedValidity(labels, (i, j) => matrix[i][j], dimensions);
+  }
+  if (sparse) {
+    const distance = resolveSparseMetric(metric);
+    const vectors = rows as SparseVector[];
+    const features = vectors.reduce(
+      (max, row) => Math.max(max, row.indices[row.indices.length - 1] + 1),
+      0
+    );
+    return densityBasedValidity(
+      labels,
+      (i, j) => distance(vectors[i], vectors[j]),
+      dimensions ?? features
+    );
+  }
+  const distance = resolveMetric(metric, p);
+  const vectors = rows as Vector[];
+  return densityBasedValidity(
+    labels,
+    (i, j) => distance(vectors[i], vectors[j]),
+    vectors[0]?.length ?? 0
+  );
+}
+
+function densityBasedValidity(
+  labels: number[],
+  distance: (i: number, j: number) => number,
+  dimensions: number
+): ValidityResult {
+  const members: number[][] = Array.from(
+    { length: labels.reduce((max, label) => Math.max(max, label), -1) + 1 },
+    () => []
+  );
+  labels.forEach((label, i) => {
+    if (label >= 0) members[label].push(i);
+  });
+
+  // all-points core distance: a density estimate from every other member of
+  // the cluster rather than from the kth neighbor alone
+  const coreDistances = new Float64Array(labels.length);
+  members.forEach((points) =>
+    points.forEach(
+      (i) =>
+        (coreDistances[i] = allPointsCoreDistance(
+          i,
+          points,
+          distance,
+          dimensions
+        ))
+    )
+  );
+  const reachability = (i: number, j: number) =>
+    Math.max(distance(i, j), coreDistances[i], coreDistances[j]);
+
+  // density sparseness: the heaviest edge between internal vertices of the
+  // cluster's spanning tree, leaving out the leaves at its fringe
+  const sparseness: number[] = [];
+  const internalPoints: number[][] = [];
+  members.forEach((points, label) => {
+    const mst = primMinimumSpanningTree(points.length, (a, b) =>
+      reachability(points[a], points[b])
+    );
+    const degree = new Int32Array(points.length);
+    mst.from.forEach((a, e) => {
+      degree[a]++;
+      degree[mst.to[e]]++;
+    });
+    let internal = points.map((_, a) => a).filter((a) => degree[a] > 1);
+    if (internal.length === 0) internal = points.map((_, a) => a);
+    const isInternal = new Set(internal);
+    let internalEdges = Array.from(mst.weights).filter(
+      (_, e) => isInternal.has(mst.from[e]) && isInternal.has(mst.to[e])
+    );
+    if (internalEdges.length === 0) internalEdges = Array.from(mst.weights);
+    sparseness[label] = internalEdges.reduce((max, w) => Math.max(max, w), 0);
+    internalPoints[label] = internal.map((a) => points[a]);
+  });
+
+  // density separation: the closest internal points of two clusters
+  const separation = members.map(() => Infinity);
+  for (let a = 0; a < members.length; a++) {
+    for (let b = a + 1; b < members.length; b++) {
+      let closest = Infinity;
+      internalPoints[a].forEach((i) =>
+        internalPoints[b].forEach(
+          (j) => (closest = Math.min(closest, reachability(i, j)))
+        )
+      );
+      separation[a] = Math.min(separation[a], closest);
+      separation[b] = Math.min(separation[b], closest);
+    }
+  }
+
+  // a lone cluster has nothing to be separated from and scores 0
+  const clusters = members.map((points, label) => {
+    const gap = separation[label];
+    const spread = sparseness[label];
+    if (points.length === 0 || !Number.isFinite(gap)) return 0;
+    const scale = Math.max(gap, spread);
+    return scale === 0 ? 0 : (gap - spread) / scale;
+  });
+  const score = clusters.reduce(
+    (sum, value, label) =>
+      sum + (value * members[label].length) / labels.length,
+    0
+  );
+  return { score, clusters };
+}
+
+// (mean over the other members of (1 / distance)^dimensions)^(-1 / dimensions),
+// computed relative to the nearest member so high dimensions do not
+// overflow. Coinciding points are left out of the sum, as in the reference
+// implementation.
+function allPointsCoreDistance(
+  point: number,
+  members: number[],
+  distance: (i: number, j: number) => number,
+  dimensions: number
+): number {
+  const distances = members
+    .filter((other) => other !== point)
+    .map((other) => distance(point, other))
+    .filter((d) => d > 0);
+  if (distances.length === 0) return 0;
+  const nearest = distances.reduce((min, d) => Math.min(min, d));
+  const sum = distances.reduce(
+    (total, d) => total + (nearest / d) ** dimensions,
+    0
+  );
+  return nearest * (sum / (members.length - 1)) ** (-1 / dimensions);
+}
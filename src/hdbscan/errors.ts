@@ -0,0 +1,32 @@
+// Base class of every error the library throws for bad input or usage, so
+// callers can tell them apart from bugs with a single instanceof check
+export class HDBSCANError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+// The data is malformed: ragged rows, values that are not finite numbers, a
+// distance matrix or sparse layout that breaks its rules, points that do not
+// match the fitted model, or a saved model that cannot be loaded
+export class InvalidInputError extends HDBSCANError {}
+
+// An option or argument is out of range, unknown, or does not fit the data;
+// parameter names it, e.g. "minClusterSize" or "algorithm"
+export class InvalidParameterError extends HDBSCANError {
+  constructor(
+    public readonly parameter: string,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+// A method that reads the fitted model was called before fit, or after a
+// fit on no points
+export class NotFittedError extends HDBSCANError {}
+
+// The model cannot do this with its metric or kind of data, e.g. predicting
+// with precomputed distances or serializing a custom metric function
+export class UnsupportedOperationError extends HDBSCANError {}
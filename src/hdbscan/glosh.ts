@@ -0,0 +1,41 @@
+import { CondensedTree } from "./condensedTree";
+
+// GLOSH (Global-Local Outlier Score from Hierarchies): how early a point
+// falls out of the cluster it last belonged to, relative to the largest
+// lambda reached anywhere below that cluster. 0 means the point stays as long
+// as the densest part of its cluster, values near 1 mark outliers. Duplicate
+// points leave at an infinite lambda and score 0; below a cluster holding
+// duplicates the maximum is infinite, so every other point takes the limit
+// score 1.
+export function outlierScores(tree: CondensedTree): number[] {
+  const deaths = new Map<number, number>();
+  tree.rows.forEach((row) => {
+    deaths.set(
+      row.parent,
+      Math.max(deaths.get(row.parent) ?? 0, row.lambdaVal)
+    );
+  });
+  // clusters come after their parent, so walking backwards carries every
+  // death up to the root
+  const clusters = tree.clusters();
+  for (let i = clusters.length - 1; i > 0; i--) {
+    const cluster = clusters[i];
+    const parent = tree.parent(cluster)!;
+    deaths.set(
+      parent,
+      Math.max(deaths.get(parent) ?? 0, deaths.get(cluster) ?? 0)
+    );
+  }
+
+  const scores = new Array(tree.numPoints).fill(0);
+  tree.rows.forEach(({ parent, child, lambdaVal }) => {
+    if (tree.isCluster(child)) return;
+    const lambdaMax = deaths.get(parent) ?? 0;
+    if (lambdaMax === Infinity) {
+      scores[child] = lambdaVal === Infinity ? 0 : 1;
+    } else if (lambdaMax > 0) {
+      scores[child] = (lambdaMax - lambdaVal) / lambdaMax;
+    }
+  });
+  return scores;
+}
@@ -0,0 +1,123 @@
+import { SpanningTree } from "./boruvka";
+
+// Minimum spanning tree after some vertices were added or had their edges
+// made cheaper. Any edge outside the old tree whose weight did not change is
+// still the heaviest edge of its cycle through the old tree, so the new tree
+// only needs the old tree edges (with their current weights) plus the edges
+// of affected vertices that got cheaper. neighbors(a) lists the other ends of
+// those for each affected vertex a, every vertex by default; an edge between
+// two affected vertices may be listed from either side.
+export function repairSpanningTree(
+  n: number,
+  tree: SpanningTree,
+  affected: number[],
+  weight: (a: number, b: number) => number,
+  neighbors: (vertex: number) => ArrayLike<number> = allVertices(n)
+): SpanningTree {
+  const isAffected = new Uint8Array(n);
+  affected.forEach((a) => (isAffected[a] = 1));
+
+  const from: number[] = [];
+  const to: number[] = [];
+  const weights: number[] = [];
+  const add = (a: number, b: number, w: number) => {
+    from.push(a);
+    to.push(b);
+    weights.push(w);
+  };
+
+  affected.forEach((a) => {
+    const others = neighbors(a);
+    for (let k = 0; k < others.length; k++) {
+      const b = others[k];
+      if (b !== a) add(a, b, weight(a, b));
+    }
+  });
+  // after the edges above, so a reweighted tree edge loses ties to them
+  for (let e = 0; e < tree.weights.length; e++) {
+    const [a, b] = [tree.from[e], tree.to[e]];
+    const isStale = isAffected[a] || isAffected[b];
+    add(a, b, isStale ? weight(a, b) : tree.weights[e]);
+  }
+
+  // Kruskal's algorithm over the candidates
+  const order = Int32Array.from(weights.keys()).sort(
+    (x, y) => weights[x] - weights[y] || x - y
+  );
+  const parent = Array.from({ length: n }, (_, i) => i);
+  const find = (x: number): number => {
+    while (parent[x] !== x) {
+      parent[x] = parent[parent[x]];
+      x = parent[x];
+    }
+    return x;
+  };
+  const result: SpanningTree = {
+    from: new Int32Array(Math.max(n - 1, 0)),
+    to: new Int32Array(Math.max(n - 1, 0)),
+    weights: new Float64Array(Math.max(n - 1, 0))
+  };
+  let edges = 0;
+  for (let k = 0; k < order.length && edges < n - 1; k++) {
+    const e = order[k];
+    const rootA = find(from[e]);
+    const rootB = find(to[e]);
+    if (rootA === rootB) continue;
+    parent[rootA] = rootB;
+    result.from[edges] = from[e];
+    result.to[edges] = to[e];
+    result.weights[edges] = weights[e];
+    edges++;
+  }
+  return result;
+}
+
+function allVertices(n: number): () => ArrayLike<number> {
+  const vertices = Int32Array.from({ length: n }, (_, i) => i);
+  return () => vertices;
+}
+
+// Renumbers freshly extracted clusters so each keeps the label of the
+// previous cluster it shares the most points with. previous covers the
+// points that were already labelled, a prefix of next. Returns the new label
+// for every cluster of next; clusters without a match, or whose old label no
+// longer fits in 0..numClusters - 1, take the lowest free labels.
+export function matchLabels(
+  previous: number[],
+  next: number[],
+  numClusters: number
+): number[] {
+  const overlap = new Map<string, number>();
+  previous.forEach((oldLabel, point) => {
+    const newLabel = next[point];
+    if (oldLabel === -1 || newLabel === -1 || oldLabel >= numClusters) return;
+    const key = `${newLabel},${oldLabel}`;
+    overlap.set(key, (overlap.get(key) ?? 0) + 1);
+  });
+
+  // largest overlaps claim their label first
+  const pairs = Array.from(overlap, ([key, count]) => {
+    const [newLabel, oldLabel] = key.split(",").map(Number);
+    return { newLabel, oldLabel, count };
+  }).sort(
+    (a, b) =>
+      b.count - a.count || a.newLabel - b.newLabel || a.oldLabel - b.oldLabel
+  );
+
+  const mapping = new Array(numClusters).fill(-1);
+  const taken = new Uint8Array(numClusters);
+  pairs.forEach(({ newLabel, oldLabel }) => {
+    if (mapping[newLabel] === -1 && !taken[oldLabel]) {
+      mapping[newLabel] = oldLabel;
+      taken[oldLabel] = 1;
+    }
+  });
+  let free = 0;
+  for (let label = 0; label < numClusters; label++) {
+    if (mapping[label] !== -1) continue;
+    while (taken[free]) free++;
+    mapping[label] = free;
+    taken[free] = 1;
+  }
+  return mapping;
+}
@@ -0,0 +1,143 @@
+import { InvalidInputError, InvalidParameterError } from "./errors";
+import { Vector } from "./metrics";
+import {
+  isSparseInput,
+  SparseInput,
+  SparseVector,
+  toSparseRows
+} from "./sparse";
+
+// Row-major buffer of n × dimensions values, e.g. an embedding matrix
+export type FlatMatrix = Float32Array | Float64Array;
+
+export type DenseInput = number[][] | FlatMatrix;
+
+export type DataInput = DenseInput | SparseInput;
+
+// A row of any supported input
+export type Point = Vector | SparseVector;
+
+// Rows of any supported input, and whether they are sparse
+export function toPoints(
+  data: DataInput,
+  dimensions?: number
+): { rows: Point[]; sparse: boolean } {
+  return isSparseInput(data)
+    ? { rows: toSparseRows(data), sparse: true }
+    : { rows: toRows(data, dimensions), sparse: false };
+}
+
+// Rows of dense input as vectors, checked to be non-empty rows of finite
+// numbers that all have the same length. Flat buffers are split into
+// subarray views over the same memory, so nothing is copied.
+export function toRows(data: DenseInput, dimensions?: number): Vector[] {
+  if (Array.isArray(data)) {
+    // by index, since forEach would skip holes in the array
+    for (let i = 0; i < data.length; i++) {
+      if (!(i in data)) {
+        throw new InvalidInputError(`Row ${i} is missing`);
+      }
+      const row = data[i];
+      if (!Array.isArray(row) && !ArrayBuffer.isView(row)) {
+        throw new InvalidInputError(
+          `Row ${i} is not an array of numbers, got ${describe(row)}`
+        );
+      }
+      const expected = dimensions ?? data[0].length;
+      if (row.length !== expected) {
+        throw new InvalidInputError(
+          dimensions === undefined
+            ? `Row ${i} has ${row.length} dimensions but row 0 has ${expected}; every row needs the same number of values`
+            : `Row ${i} has ${row.length} dimensions, expected ${dimensions}`
+        );
+      }
+      if (row.length === 0) {
+        throw new InvalidInputError(
+          "Rows must have at least one value, got empty rows"
+        );
+      }
+      checkFinite(row, i);
+    }
+    return data;
+  }
+
+  if (!(data instanceof Float32Array || data instanceof Float64Array)) {
+    throw new InvalidInputError(
+      `data must be an array of rows, a Float32Array, a Float64Array or sparse rows, got ${describe(
+        data
+      )}`
+    );
+  }
+  if (dimensions === undefined) {
+    throw new InvalidParameterError(
+      "dimensions",
+      "dimensions is required when data is a flat typed array"
+    );
+  }
+  if (!Number.isInteger(dimensions) || dimensions < 1) {
+    throw new InvalidParameterError(
+      "dimensions",
+      `dimensions must be a positive integer, got ${dimensions}`
+    );
+  }
+  if (data.length % dimensions !== 0) {
+    throw new InvalidInputError(
+      `A flat buffer of ${data.length} values cannot hold rows of ${dimensions} dimensions`
+    );
+  }
+  const rows: Vector[] = [];
+  for (let start = 0; start < data.length; start += dimensions) {
+    const row = data.subarray(start, start + dimensions);
+    checkFinite(row, rows.length);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// NaN and infinite values have no place in a distance, so they are rejected
+// before they can silently break the spanning tree
+function checkFinite(row: ArrayLike<unknown>, index: number): void {
+  for (let d = 0; d < row.length; d++) {
+    const value = row[d];
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      throw new InvalidInputError(
+        `Row ${index} has ${describe(
+          value
+        )} at position ${d}; every value must be a finite number (impute or drop missing values first)`
+      );
+    }
+  }
+}
+
+function describe(value: unknown): string {
+  if (typeof value === "number") return String(value);
+  if (typeof value === "string") return JSON.stringify(value);
+  if (value === null || value === undefined) return String(value);
+  return typeof value === "object"
+    ? (value.constructor?.name ?? "an object")
+    : typeof value;
+}
+
+// Copy of the rows a model keeps after fitting, so later changes to the
+// caller's arrays cannot reach it. Dense rows become views over one new
+// Float64Array.
+export function copyPoints(rows: Point[], sparse: boolean): Point[] {
+  if (sparse) {
+    return (rows as SparseVector[]).map(({ indices, values }) => ({
+      indices: Array.from(indices),
+      values: Array.from(values)
+    }));
+  }
+  const dimensions = (rows[0] as Vector | undefined)?.length ?? 0;
+  const buffer = new Float64Array(rows.length * dimensions);
+  return (rows as Vector[]).map((row, i) => {
+    buffer.set(row, i * dimensions);
+    return buffer.subarray(i * dimensions, (i + 1) * dimensions);
+  });
+}
+
+// A row as a plain array for public results; rows given as arrays are
+// returned as is, typed-array views are copied
+export function rowToArray(row: Vector): number[] {
+  return Array.isArray(row) ? row : Array.from(row);
+}
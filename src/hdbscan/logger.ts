@@ -0,0 +1,44 @@
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogFields = Record<string, unknown>;
+
+// What HDBSCAN logs through: console-style (message, fields) methods, as in
+// winston, or a thin wrapper around loggers that take fields first (pino,
+// bunyan). Debug payloads such as the spanning tree are only built when
+// isLevelEnabled says debug is on, so leave it out only if every debug
+// message should be built and passed on.
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  isLevelEnabled?(level: LogLevel): boolean;
+}
+
+const LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+// Logs the given level and above to a console, prefixed with [HDBSCAN]
+export function consoleLogger(
+  level: LogLevel = "info",
+  output: Pick<Console, "log" | "info" | "warn" | "error"> = console
+): Logger {
+  const isLevelEnabled = (messageLevel: LogLevel) =>
+    LEVELS.indexOf(messageLevel) >= LEVELS.indexOf(level);
+  const method =
+    (messageLevel: LogLevel, print: (...args: unknown[]) => void) =>
+    (message: string, fields?: LogFields) => {
+      if (!isLevelEnabled(messageLevel)) return;
+      if (fields === undefined) {
+        print("[HDBSCAN]", message);
+      } else {
+        print("[HDBSCAN]", message, fields);
+      }
+    };
+  return {
+    debug: method("debug", output.log.bind(output)),
+    info: method("info", output.info.bind(output)),
+    warn: method("warn", output.warn.bind(output)),
+    error: method("error", output.error.bind(output)),
+    isLevelEnabled
+  };
+}
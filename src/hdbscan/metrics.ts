@@ -0,0 +1,146 @@
+import { InvalidInputError, InvalidParameterError } from "./errors";
+
+// A point: a plain array, or a row view into a typed array buffer
+export type Vector = ArrayLike<number>;
+
+// Written as a method type so that functions declared for number[] rows
+// still type-check; with flat typed-array input they receive subarray views
+export type DistanceFunction = {
+  distance(a: Vector, b: Vector): number;
+}["distance"];
+
+export type MetricName =
+  | "euclidean"
+  | "sqeuclidean"
+  | "manhattan"
+  | "chebyshev"
+  | "minkowski"
+  | "cosine";
+
+export type Metric = MetricName | DistanceFunction;
+
+// Relative tolerance used when checking a precomputed matrix for symmetry
+const SYMMETRY_TOLERANCE = 1e-9;
+
+export function euclideanDistance(a: Vector, b: Vector): number {
+  return Math.sqrt(squaredEuclideanDistance(a, b));
+}
+
+// Cheaper than euclidean and yields the same spanning tree, but stabilities
+// are computed on the squared scale.
+export function squaredEuclideanDistance(a: Vector, b: Vector): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const diff = a[i] - b[i];
+    sum += diff * diff;
+  }
+  return sum;
+}
+
+export function manhattanDistance(a: Vector, b: Vector): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += Math.abs(a[i] - b[i]);
+  }
+  return sum;
+}
+
+export function chebyshevDistance(a: Vector, b: Vector): number {
+  let max = 0;
+  for (let i = 0; i < a.length; i++) {
+    max = Math.max(max, Math.abs(a[i] - b[i]));
+  }
+  return max;
+}
+
+export function minkowskiDistance(a: Vector, b: Vector, p: number): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += Math.abs(a[i] - b[i]) ** p;
+  }
+  return sum ** (1 / p);
+}
+
+// 1 - cosine similarity; a zero vector is treated as orthogonal to everything
+export function cosineDistance(a: Vector, b: Vector): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) {
+    return 1;
+  }
+  // clamp to avoid tiny negative distances from floating point error
+  return Math.max(0, 1 - dot / Math.sqrt(normA * normB));
+}
+
+export function resolveMetric(metric: Metric, p: number = 2): DistanceFunction {
+  if (typeof metric === "function") {
+    return metric;
+  }
+  switch (metric) {
+    case "euclidean":
+      return euclideanDistance;
+    case "sqeuclidean":
+      return squaredEuclideanDistance;
+    case "manhattan":
+      return manhattanDistance;
+    case "chebyshev":
+      return chebyshevDistance;
+    case "minkowski":
+      if (!(p >= 1)) {
+        throw new InvalidParameterError(
+          "p",
+          `p must be at least 1 for the minkowski metric, got ${p}`
+        );
+      }
+      return (a, b) => minkowskiDistance(a, b, p);
+    case "cosine":
+      return cosineDistance;
+    default:
+      throw new InvalidParameterError("metric", `Unknown metric: ${metric}`);
+  }
+}
+
+// Checks that a precomputed matrix is a valid dissimilarity matrix: square,
+// symmetric, non-negative and with a zero diagonal.
+export function validateDistanceMatrix(matrix: Vector[]): void {
+  const n = matrix.length;
+  for (let i = 0; i < n; i++) {
+    if (matrix[i]?.length !== n) {
+      throw new InvalidInputError(
+        `Precomputed distance matrix must be square: row ${i} has ${
+          matrix[i]?.length ?? 0
+        } entries, expected ${n}`
+      );
+    }
+  }
+  for (let i = 0; i < n; i++) {
+    if (matrix[i][i] !== 0) {
+      throw new InvalidInputError(
+        `Precomputed distance matrix must have a zero diagonal: found ${matrix[i][i]} at [${i}][${i}]`
+      );
+    }
+    for (let j = 0; j < n; j++) {
+      const d = matrix[i][j];
+      if (!(d >= 0)) {
+        throw new InvalidInputError(
+          `Precomputed distance matrix must be non-negative: found ${d} at [${i}][${j}]`
+        );
+      }
+      if (j > i) {
+        const mirrored = matrix[j][i];
+        const tolerance = SYMMETRY_TOLERANCE * Math.max(1, Math.abs(d));
+        if (Math.abs(d - mirrored) > tolerance) {
+          throw new InvalidInputError(
+            `Precomputed distance matrix must be symmetric: [${i}][${j}] is ${d} but [${j}][${i}] is ${mirrored}`
+          );
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,165 @@
+import { cpus } from "os";
+import { extname, join } from "path";
+import { Worker } from "worker_threads";
+import { DataInput } from "./input";
+import { MetricName } from "./metrics";
+import { abortError } from "./progress";
+
+// Work for one block of rows, [start, end), run by worker.ts. Metrics travel
+// by name since functions cannot be sent to another thread.
+
+// Fills rows of the shared n × n distance matrix. Each pair is computed once,
+// by the worker owning its smaller row, and mirrored into the other half.
+export interface DistanceTask {
+  kind: "distances";
+  data: DataInput;
+  dimensions?: number;
+  metric: MetricName;
+  p: number;
+  matrix: SharedArrayBuffer;
+  start: number;
+  end: number;
+}
+
+// Core distances of rows of the filled shared distance matrix
+export interface CoreDistanceTask {
+  kind: "coreDistances";
+  matrix: SharedArrayBuffer;
+  n: number;
+  minSamples: number;
+  start: number;
+  end: number;
+}
+
+export interface TreeTask {
+  kind: "tree";
+  data: DataInput;
+  dimensions?: number;
+  metric: MetricName;
+  p: number;
+  tree: "kdtree" | "balltree";
+  leafSize: number;
+  minSamples: number;
+  start: number;
+  end: number;
+}
+
+export type WorkerTask = DistanceTask | CoreDistanceTask | TreeTask;
+
+export interface WorkerResult {
+  // one per row of the block, empty for distance tasks
+  coreDistances: Float64Array;
+}
+
+export function defaultWorkerCount(): number {
+  return Math.max(1, cpus().length);
+}
+
+// Distance to the minSamples-th nearest other point, read off a row of the
+// distance matrix
+export function rowCoreDistance(
+  row: ArrayLike<number>,
+  point: number,
+  minSamples: number
+): number {
+  const others: number[] = [];
+  for (let j = 0; j < row.length; j++) {
+    if (j !== point) others.push(row[j]);
+  }
+  others.sort((a, b) => a - b);
+  return others[Math.min(minSamples - 1, others.length - 1)];
+}
+
+export interface RunOptions {
+  signal?: AbortSignal;
+  onBlock?: (done: number, total: number) => void; // after each block
+  // "pairs" sizes the blocks for work on the pairs j > i of each row i,
+  // which shrinks down the rows, instead of giving every block as many rows
+  balance?: "rows" | "pairs";
+}
+
+// Splits the rows into one contiguous block per worker and runs the task on
+// each, resolving with the results in row order. Every worker is terminated
+// as soon as one of them fails or the signal is aborted.
+export function runInWorkers<T extends WorkerTask>(
+  task: Omit<T, "start" | "end">,
+  rows: number,
+  workers: number,
+  { signal, onBlock, balance = "rows" }: RunOptions = {}
+): Promise<WorkerResult[]> {
+  if (signal?.aborted) {
+    return Promise.reject(abortError(signal));
+  }
+  const blocks = splitRows(rows, workers, balance);
+
+  const running: Worker[] = [];
+  let done = 0;
+  const results = blocks.map(
+    ([start, end]) =>
+      new Promise<WorkerResult>((resolve, reject) => {
+        const worker = spawnWorker({ ...task, start, end } as T);
+        running.push(worker);
+        worker.once("message", (result: WorkerResult) => {
+          resolve(result);
+          worker.terminate();
+          onBlock?.(++done, blocks.length);
+        });
+        worker.once("error", reject);
+        worker.once("exit", (code) => {
+          if (code !== 0) {
+            reject(new Error(`Worker stopped with exit code ${code}`));
+          }
+        });
+      })
+  );
+
+  let onAbort = () => {};
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(abortError(signal!));
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+  return Promise.race([Promise.all(results), aborted])
+    .catch((error) => {
+      running.forEach((worker) => worker.terminate());
+      throw error;
+    })
+    .finally(() => signal?.removeEventListener("abort", onAbort));
+}
+
+// Contiguous [start, end) blocks of about equal work, at most one per worker
+export function splitRows(
+  rows: number,
+  workers: number,
+  balance: "rows" | "pairs" = "rows"
+): [number, number][] {
+  const work = (row: number) => (balance === "pairs" ? rows - 1 - row : 1);
+  let total = 0;
+  for (let row = 0; row < rows; row++) total += work(row);
+
+  const blocks: [number, number][] = [];
+  let start = 0;
+  let done = 0;
+  for (let row = 0; row < rows; row++) {
+    done += work(row);
+    const isLast = row === rows - 1;
+    const isFull =
+      blocks.length < workers - 1 &&
+      done >= (total * (blocks.length + 1)) / workers;
+    if (isLast || isFull) {
+      blocks.push([start, row + 1]);
+      start = row + 1;
+    }
+  }
+  return blocks;
+}
+
+// The worker runs from the compiled .js next to this file; under ts-node or
+// ts-jest the sources are .ts and need ts-node inside the worker too
+function spawnWorker(task: WorkerTask): Worker {
+  const extension = extname(__filename);
+  return new Worker(join(__dirname, `worker${extension}`), {
+    workerData: task,
+    execArgv:
+      extension === ".ts" ? ["-r", "ts-node/register/transpile-only"] : []
+  });
+}
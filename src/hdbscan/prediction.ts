@@ -0,0 +1,164 @@
+import { CondensedTree } from "./condensedTree";
+
+export interface PredictionResult {
+  labels: number[];
+  probabilities: number[];
+}
+
+// Largest lambda among a cluster's direct children: the level at which its
+// last points leave or it splits, i.e. 1 / ε_min of the cluster
+export function clusterMaxLambda(tree: CondensedTree, cluster: number): number {
+  return tree
+    .children(cluster)
+    .reduce((max, row) => Math.max(max, row.lambdaVal), 0);
+}
+
+// Places a point that joins the fitted data at `lambda` through `neighbor`
+// into the condensed tree. The point enters the neighbor's cluster unless it
+// only connects before that cluster was born, in which case it moves up to
+// the ancestor alive at that level. It gets the label of the selected
+// cluster containing that position, scaled by how long it would persist.
+export function findClusterAndProbability(
+  tree: CondensedTree,
+  selectedClusters: number[],
+  neighbor: number,
+  lambda: number
+): [number, number] {
+  const neighborRow = tree.row(neighbor);
+  if (!neighborRow) {
+    return [-1, 0];
+  }
+  // a new point cannot stay in the cluster longer than its neighbor
+  lambda = Math.min(lambda, neighborRow.lambdaVal);
+
+  let cluster = neighborRow.parent;
+  while (cluster !== tree.root && lambda < tree.row(cluster)!.lambdaVal) {
+    cluster = tree.parent(cluster)!;
+  }
+
+  for (
+    let c: number | undefined = cluster;
+    c !== undefined;
+    c = tree.parent(c)
+  ) {
+    const label = selectedClusters.indexOf(c);
+    if (label !== -1) {
+      const maxLambda = clusterMaxLambda(tree, c);
+      return [label, lambda >= maxLambda ? 1 : lambda / maxLambda];
+    }
+  }
+  return [-1, 0];
+}
+
+// The most persistent points of a cluster: for every leaf cluster below it
+// (or the cluster itself when it never splits), the points that stay until
+// the leaf's largest lambda
+export function clusterExemplars(
+  tree: CondensedTree,
+  cluster: number
+): number[] {
+  const exemplars: number[] = [];
+  const stack = [cluster];
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    const childClusters = tree.childClusters(current);
+    if (childClusters.length > 0) {
+      stack.push(...childClusters.reverse());
+      continue;
+    }
+    const maxLambda = clusterMaxLambda(tree, current);
+    tree.children(current).forEach((row) => {
+      if (row.lambdaVal === maxLambda) exemplars.push(row.child);
+    });
+  }
+  return exemplars;
+}
+
+// Lambda up to which a point that falls out of pointCluster at pointLambda
+// stays connected to cluster: the point's own lambda when one cluster
+// contains the other, otherwise the level where their branches split
+export function mergeHeight(
+  tree: CondensedTree,
+  pointCluster: number,
+  pointLambda: number,
+  cluster: number
+): number {
+  const ancestors = new Set<number>();
+  for (
+    let c: number | undefined = pointCluster;
+    c !== undefined;
+    c = tree.parent(c)
+  ) {
+    if (c === cluster) return pointLambda;
+    ancestors.add(c);
+  }
+  let current = cluster;
+  for (;;) {
+    const parent = tree.parent(current)!;
+    if (parent === pointCluster) return pointLambda;
+    if (ancestors.has(parent)) return tree.row(current)!.lambdaVal;
+    current = parent;
+  }
+}
+
+// Soft membership of a fitted point in every selected cluster, combining how
+// close it lies to each cluster's exemplars with how long it stays connected
+// to each cluster in the condensed tree. The vector is scaled by the
+// probability that the point belongs to any cluster at all, so it sums to at
+// most 1 and the remainder is its chance of being noise.
+export function membershipVector(
+  tree: CondensedTree,
+  selectedClusters: number[],
+  maxLambdas: Map<number, number>,
+  point: number,
+  exemplarDistances: number[]
+): number[] {
+  if (selectedClusters.length === 0) {
+    return [];
+  }
+  const { parent: pointCluster, lambdaVal: pointLambda } = tree.row(point)!;
+  const heights = selectedClusters.map((cluster) =>
+    mergeHeight(tree, pointCluster, pointLambda, cluster)
+  );
+
+  const distanceScores = normalize(exemplarDistances.map((d) => 1 / d));
+  const pointMaxLambda = maxLambdas.get(pointCluster)!;
+  const treeScores = normalize(
+    heights.map((height) =>
+      height >= pointMaxLambda
+        ? Infinity
+        : pointMaxLambda === Infinity
+          ? 1
+          : pointMaxLambda / (pointMaxLambda - height)
+    )
+  );
+  const combined = normalize(
+    distanceScores.map((score, i) => score * treeScores[i])
+  );
+
+  let nearest = 0;
+  heights.forEach((height, i) => {
+    if (height > heights[nearest]) nearest = i;
+  });
+  const maxLambda = Math.max(
+    maxLambdas.get(selectedClusters[nearest])!,
+    pointLambda
+  );
+  const inAnyCluster =
+    heights[nearest] >= maxLambda ? 1 : heights[nearest] / maxLambda;
+
+  return combined.map((score) => score * inAnyCluster);
+}
+
+// Scales non-negative scores to sum to 1; infinite scores share all of the
+// mass between them
+function normalize(scores: number[]): number[] {
+  if (scores.some((score) => score === Infinity)) {
+    const count = scores.filter((score) => score === Infinity).length;
+    return scores.map((score) => (score === Infinity ? 1 / count : 0));
+  }
+  const total = scores.reduce((sum, score) => sum + score, 0);
+  return total > 0
+    ? scores.map((score) => score / total)
+    : scores.map(() => 1 / scores.length);
+}
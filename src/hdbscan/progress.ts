@@ -0,0 +1,117 @@
+import { performance } from "perf_hooks";
+
+export type FitStage =
+  "coreDistances" | "mst" | "hierarchy" | "condense" | "extract";
+
+export interface FitProgress {
+  stage: FitStage;
+  percent: number; // of the whole fit, 0 to 100
+}
+
+// Wall-clock milliseconds spent in each stage of a fit, and in all of them
+export type FitTimings = Record<FitStage | "total", number>;
+
+export type ProgressCallback = (progress: FitProgress) => void;
+
+// Share of the whole fit each stage accounts for. The first two are the
+// quadratic (or n log n with a tree) part; the rest are near linear.
+const STAGE_RANGES: Record<FitStage, [number, number]> = {
+  coreDistances: [0, 45],
+  mst: [45, 90],
+  hierarchy: [90, 94],
+  condense: [94, 97],
+  extract: [97, 100]
+};
+
+// Forwards progress of one fit to the callback, at most once per whole
+// percent so that per-row reports stay cheap, and stops the fit by throwing
+// once the signal is aborted. Also times the stages: a stage lasts from its
+// first report to the first report of the next one, and the first stage
+// includes the setup before it (input conversion, building a tree).
+export class ProgressReporter {
+  private stage: FitStage | null = null;
+  private percent = -1;
+  private readonly startedAt = performance.now();
+  private stageStartedAt = this.startedAt;
+  private readonly durations: FitTimings = emptyTimings();
+
+  constructor(
+    private readonly onProgress?: ProgressCallback,
+    private readonly signal?: AbortSignal
+  ) {}
+
+  // fraction is how much of the stage is done, from 0 to 1
+  report(stage: FitStage, fraction: number): void {
+    this.throwIfAborted();
+    const entered = stage !== this.stage;
+    if (entered) {
+      this.closeStage();
+      this.stage = stage;
+    }
+    if (!this.onProgress) return;
+    const [from, to] = STAGE_RANGES[stage];
+    const percent = Math.floor(from + (to - from) * Math.min(fraction, 1));
+    if (entered || percent > this.percent) {
+      this.percent = percent;
+      this.onProgress({ stage, percent });
+    }
+  }
+
+  // The fit is done; reported even if the signal was aborted meanwhile
+  finish(): FitTimings {
+    this.closeStage();
+    this.stage = null;
+    this.onProgress?.({ stage: "extract", percent: 100 });
+    return {
+      ...this.durations,
+      total: performance.now() - this.startedAt
+    };
+  }
+
+  throwIfAborted(): void {
+    if (this.signal?.aborted) {
+      throw abortError(this.signal);
+    }
+  }
+
+  private closeStage(): void {
+    if (this.stage === null) return;
+    const now = performance.now();
+    this.durations[this.stage] += now - this.stageStartedAt;
+    this.stageStartedAt = now;
+  }
+}
+
+// The long loops of a fit are generators that yield every row, point or
+// edge; fit runs them straight through, while fitAsync gives the event loop
+// a turn now and then so an abort can get in
+export type Steps<T> = Generator<void, T, void>;
+
+export function runSteps<T>(steps: Steps<T>): T {
+  for (;;) {
+    const step = steps.next();
+    if (step.done) return step.value;
+  }
+}
+
+export function emptyTimings(): FitTimings {
+  return {
+    coreDistances: 0,
+    mst: 0,
+    hierarchy: 0,
+    condense: 0,
+    extract: 0,
+    total: 0
+  };
+}
+
+// The signal's reason when it has one (Node 17.2+), otherwise an AbortError
+export function abortError(signal: AbortSignal): Error {
+  const { reason } = signal as AbortSignal & { reason?: unknown };
+  if (reason instanceof Error) {
+    return reason;
+  }
+  const error = new Error("The fit was aborted");
+  error.name = "AbortError";
+  return error;
+}
@@ -0,0 +1,51 @@
+// [left, right, distance, size]: row i merges two nodes into node
+// numPoints + i, where ids below numPoints are points (SciPy's layout)
+export type LinkageRow = [number, number, number, number];
+
+// Single linkage dendrogram over the mutual reachability spanning tree, in
+// the (n-1)×4 linkage-matrix format understood by SciPy and most dendrogram
+// tooling. Rows are in merge order, so distances never decrease.
+export class SingleLinkageTree {
+  constructor(
+    public readonly matrix: LinkageRow[],
+    public readonly numPoints: number = matrix.length + 1
+  ) {}
+
+  // Flat clustering from cutting the dendrogram at a height: points joined
+  // by merges at or below the distance share a label, and groups smaller
+  // than minClusterSize are labelled -1 as noise
+  cut(distance: number, minClusterSize: number = 1): number[] {
+    const n = this.numPoints;
+    const parent = Array.from({ length: Math.max(2 * n - 1, 0) }, (_, i) => i);
+    const find = (x: number): number => {
+      while (parent[x] !== x) {
+        parent[x] = parent[parent[x]];
+        x = parent[x];
+      }
+      return x;
+    };
+
+    this.matrix.forEach(([left, right, height], i) => {
+      if (height <= distance) {
+        parent[find(left)] = n + i;
+        parent[find(right)] = n + i;
+      }
+    });
+
+    const sizes = new Map<number, number>();
+    const roots = Array.from({ length: n }, (_, i) => find(i));
+    roots.forEach((root) => sizes.set(root, (sizes.get(root) ?? 0) + 1));
+
+    // number clusters in order of their first point
+    const labelOf = new Map<number, number>();
+    return roots.map((root) => {
+      if (sizes.get(root)! < minClusterSize) return -1;
+      if (!labelOf.has(root)) labelOf.set(root, labelOf.size);
+      return labelOf.get(root)!;
+    });
+  }
+
+  toJSON(): LinkageRow[] {
+    return this.matrix;
+  }
+}
@@ -0,0 +1,189 @@
+import { InvalidInputError, InvalidParameterError } from "./errors";
+import { Metric } from "./metrics";
+
+// One sparse row: the nonzero entries, indices in ascending order
+export interface SparseVector {
+  indices: ArrayLike<number>;
+  values: ArrayLike<number>;
+}
+
+// Compressed sparse rows: row i holds the entries indptr[i] to
+// indptr[i + 1] - 1 of indices and values, as in scipy.sparse.csr_matrix
+export interface CSRMatrix {
+  indptr: ArrayLike<number>;
+  indices: ArrayLike<number>;
+  values: ArrayLike<number>;
+}
+
+export type SparseInput = SparseVector[] | CSRMatrix;
+
+export type SparseDistanceFunction = (
+  a: SparseVector,
+  b: SparseVector
+) => number;
+
+export const SPARSE_METRICS = ["euclidean", "cosine"] as const;
+
+// Walks the nonzeros of both rows in index order, so the cost depends on
+// the number of nonzeros rather than the dimensionality
+export function sparseSquaredEuclideanDistance(
+  a: SparseVector,
+  b: SparseVector
+): number {
+  let sum = 0;
+  let i = 0;
+  let j = 0;
+  while (i < a.indices.length || j < b.indices.length) {
+    const indexA = i < a.indices.length ? a.indices[i] : Infinity;
+    const indexB = j < b.indices.length ? b.indices[j] : Infinity;
+    let diff: number;
+    if (indexA === indexB) {
+      diff = a.values[i++] - b.values[j++];
+    } else if (indexA < indexB) {
+      diff = a.values[i++];
+    } else {
+      diff = b.values[j++];
+    }
+    sum += diff * diff;
+  }
+  return sum;
+}
+
+export function sparseEuclideanDistance(
+  a: SparseVector,
+  b: SparseVector
+): number {
+  return Math.sqrt(sparseSquaredEuclideanDistance(a, b));
+}
+
+// Same conventions as cosineDistance: a zero row is orthogonal to everything
+export function sparseCosineDistance(a: SparseVector, b: SparseVector): number {
+  let dot = 0;
+  let i = 0;
+  let j = 0;
+  while (i < a.indices.length && j < b.indices.length) {
+    if (a.indices[i] === b.indices[j]) {
+      dot += a.values[i++] * b.values[j++];
+    } else if (a.indices[i] < b.indices[j]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  const normA = squaredNorm(a);
+  const normB = squaredNorm(b);
+  if (normA === 0 || normB === 0) {
+    return 1;
+  }
+  return Math.max(0, 1 - dot / Math.sqrt(normA * normB));
+}
+
+function squaredNorm({ values }: SparseVector): number {
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i] * values[i];
+  }
+  return sum;
+}
+
+export function resolveSparseMetric(
+  metric: Metric | "precomputed"
+): SparseDistanceFunction {
+  switch (metric) {
+    case "euclidean":
+      return sparseEuclideanDistance;
+    case "cosine":
+      return sparseCosineDistance;
+    default:
+      throw new InvalidParameterError(
+        "metric",
+        `Sparse input supports the ${SPARSE_METRICS.join(
+          " and "
+        )} metrics, got ${typeof metric === "function" ? "a custom" : metric}`
+      );
+  }
+}
+
+export function isSparseInput(data: unknown): data is SparseInput {
+  if (Array.isArray(data)) {
+    const first = data[0];
+    return (
+      typeof first === "object" &&
+      first !== null &&
+      !Array.isArray(first) &&
+      "indices" in first
+    );
+  }
+  return typeof data === "object" && data !== null && "indptr" in data;
+}
+
+// Rows of sparse input, checked for matching lengths, ascending
+// non-negative integer indices and finite values. CSR rows are subarray
+// views when the arrays are typed.
+export function toSparseRows(data: SparseInput): SparseVector[] {
+  const rows = Array.isArray(data) ? data : csrRows(data);
+  // by index, since forEach would skip holes in the array
+  for (let row = 0; row < rows.length; row++) {
+    if (rows[row] === undefined || rows[row] === null) {
+      throw new InvalidInputError(`Sparse row ${row} is missing`);
+    }
+    const { indices, values } = rows[row];
+    if (indices?.length === undefined || indices.length !== values?.length) {
+      throw new InvalidInputError(
+        `Sparse row ${row} must have as many indices as values`
+      );
+    }
+    for (let k = 0; k < indices.length; k++) {
+      if (!Number.isInteger(indices[k]) || indices[k] < 0) {
+        throw new InvalidInputError(
+          `Sparse row ${row} has index ${indices[k]}, indices must be non-negative integers`
+        );
+      }
+      if (k > 0 && !(indices[k] > indices[k - 1])) {
+        throw new InvalidInputError(
+          `Sparse row ${row} must have strictly ascending indices`
+        );
+      }
+      if (!Number.isFinite(values[k])) {
+        throw new InvalidInputError(
+          `Sparse row ${row} has ${values[k]} at index ${indices[k]}; every value must be a finite number`
+        );
+      }
+    }
+  }
+  return rows;
+}
+
+function csrRows({ indptr, indices, values }: CSRMatrix): SparseVector[] {
+  if (indptr.length === 0 || indptr[0] !== 0) {
+    throw new InvalidInputError("CSR indptr must start at 0");
+  }
+  if (indices.length !== values.length) {
+    throw new InvalidInputError(
+      "CSR indices and values must have the same length"
+    );
+  }
+  if (indptr[indptr.length - 1] !== indices.length) {
+    throw new InvalidInputError(
+      "CSR indptr must end at the number of stored values"
+    );
+  }
+  const slice = (array: ArrayLike<number>, start: number, end: number) =>
+    ArrayBuffer.isView(array)
+      ? (array as unknown as Float64Array).subarray(start, end)
+      : Array.prototype.slice.call(array, start, end);
+
+  const rows: SparseVector[] = [];
+  for (let row = 0; row + 1 < indptr.length; row++) {
+    const start = indptr[row];
+    const end = indptr[row + 1];
+    if (!(end >= start)) {
+      throw new InvalidInputError("CSR indptr must be non-decreasing");
+    }
+    rows.push({
+      indices: slice(indices, start, end),
+      values: slice(values, start, end)
+    });
+  }
+  return rows;
+}
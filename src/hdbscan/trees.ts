@@ -0,0 +1,385 @@
+import { InvalidParameterError } from "./errors";
+import { DistanceFunction, MetricName, Vector } from "./metrics";
+
+// Named metrics each index can bound; custom functions are accepted by the
+// ball tree only when asked for by name, on the caller's word that they
+// satisfy the triangle inequality
+export const KD_TREE_METRICS: MetricName[] = [
+  "euclidean",
+  "sqeuclidean",
+  "manhattan",
+  "chebyshev",
+  "minkowski"
+];
+export const BALL_TREE_METRICS: MetricName[] = [
+  "euclidean",
+  "manhattan",
+  "chebyshev",
+  "minkowski"
+];
+
+export interface KNNResult {
+  indices: number[];
+  distances: number[]; // ascending
+}
+
+export interface SpatialIndex<P = Vector> {
+  query(point: P, k: number): KNNResult;
+  // every point within radius of point, inclusive
+  queryRadius(point: P, radius: number): KNNResult;
+}
+
+interface TreeNode {
+  start: number; // range of this node in the index permutation
+  end: number;
+  left: number; // child node ids, -1 for leaves
+  right: number;
+}
+
+interface KDNode extends TreeNode {
+  lower: number[]; // bounding box
+  upper: number[];
+}
+
+interface BallNode extends TreeNode {
+  centroid: number[];
+  radius: number;
+}
+
+// Fixed-size max-heap keeping the k closest candidates seen so far
+class NeighborHeap {
+  private indices: number[] = [];
+  private distances: number[] = [];
+
+  constructor(private readonly k: number) {}
+
+  // Distance a candidate has to beat to enter the heap
+  worst(): number {
+    return this.distances.length < this.k ? Infinity : this.distances[0];
+  }
+
+  push(index: number, distance: number): void {
+    if (this.distances.length < this.k) {
+      this.indices.push(index);
+      this.distances.push(distance);
+      this.siftUp(this.distances.length - 1);
+    } else if (distance < this.distances[0]) {
+      this.indices[0] = index;
+      this.distances[0] = distance;
+      this.siftDown(0);
+    }
+  }
+
+  toSortedResult(): KNNResult {
+    return sortedResult(this.indices, this.distances);
+  }
+
+  private siftUp(i: number): void {
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.distances[parent] >= this.distances[i]) break;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  private siftDown(i: number): void {
+    const size = this.distances.length;
+    for (;;) {
+      const left = 2 * i + 1;
+      const right = left + 1;
+      let largest = i;
+      if (left < size && this.distances[left] > this.distances[largest]) {
+        largest = left;
+      }
+      if (right < size && this.distances[right] > this.distances[largest]) {
+        largest = right;
+      }
+      if (largest === i) break;
+      this.swap(i, largest);
+      i = largest;
+    }
+  }
+
+  private swap(a: number, b: number): void {
+    [this.indices[a], this.indices[b]] = [this.indices[b], this.indices[a]];
+    [this.distances[a], this.distances[b]] = [
+      this.distances[b],
+      this.distances[a]
+    ];
+  }
+}
+
+// Points found by a radius query, in no particular order until sorted
+class RadiusResult {
+  private indices: number[] = [];
+  private distances: number[] = [];
+
+  push(index: number, distance: number): void {
+    this.indices.push(index);
+    this.distances.push(distance);
+  }
+
+  toSortedResult(): KNNResult {
+    return sortedResult(this.indices, this.distances);
+  }
+}
+
+// Parallel index and distance lists ordered by ascending distance
+function sortedResult(indices: number[], distances: number[]): KNNResult {
+  const order = distances
+    .map((_, i) => i)
+    .sort((a, b) => distances[a] - distances[b]);
+  return {
+    indices: order.map((i) => indices[i]),
+    distances: order.map((i) => distances[i])
+  };
+}
+
+// Shared construction, k-NN and radius search for the KD-tree and ball tree. Nodes
+// are split on the dimension of largest spread until they hold at most
+// leafSize points; subclasses only differ in how a node bounds its points.
+export abstract class BinarySpaceTree<
+  N extends TreeNode = TreeNode
+> implements SpatialIndex {
+  protected readonly nodes: N[] = [];
+  protected readonly indices: number[];
+
+  constructor(
+    protected readonly data: Vector[],
+    protected readonly distance: DistanceFunction,
+    protected readonly leafSize: number = 40
+  ) {
+    if (!(leafSize >= 1)) {
+      throw new InvalidParameterError(
+        "leafSize",
+        `leafSize must be at least 1, got ${leafSize}`
+      );
+    }
+    this.indices = data.map((_, i) => i);
+    if (data.length > 0) {
+      this.build(0, data.length);
+    }
+  }
+
+  get nodeCount(): number {
+    return this.nodes.length;
+  }
+
+  // Read-only view of the structure for traversals other than k-NN. Node 0
+  // is the root and children always have larger ids than their parent.
+  children(nodeId: number): [number, number] | null {
+    const node = this.nodes[nodeId];
+    return node.left === -1 ? null : [node.left, node.right];
+  }
+
+  // Points below a node, as a range of pointOrder
+  nodeRange(nodeId: number): [number, number] {
+    const node = this.nodes[nodeId];
+    return [node.start, node.end];
+  }
+
+  get pointOrder(): readonly number[] {
+    return this.indices;
+  }
+
+  lowerBound(nodeId: number, point: Vector): number {
+    return this.minDistance(this.nodes[nodeId], point);
+  }
+
+  query(point: Vector, k: number): KNNResult {
+    const heap = new NeighborHeap(Math.min(k, this.data.length));
+    if (this.nodes.length > 0 && k > 0) {
+      this.search(0, this.minDistance(this.nodes[0], point), point, heap);
+    }
+    return heap.toSortedResult();
+  }
+
+  queryRadius(point: Vector, radius: number): KNNResult {
+    const found = new RadiusResult();
+    if (this.nodes.length > 0) {
+      this.searchRadius(0, point, radius, found);
+    }
+    return found.toSortedResult();
+  }
+
+  protected abstract createNode(start: number, end: number): N;
+
+  // Lower bound on the distance from point to anything inside node
+  protected abstract minDistance(node: N, point: Vector): number;
+
+  private build(start: number, end: number): number {
+    const id = this.nodes.length;
+    const node = this.createNode(start, end);
+    this.nodes.push(node);
+
+    if (end - start > this.leafSize) {
+      const dim = this.widestDimension(start, end);
+      const range = this.indices
+        .slice(start, end)
+        .sort((a, b) => this.data[a][dim] - this.data[b][dim]);
+      for (let i = start; i < end; i++) {
+        this.indices[i] = range[i - start];
+      }
+      const mid = (start + end) >> 1;
+      node.left = this.build(start, mid);
+      node.right = this.build(mid, end);
+    }
+    return id;
+  }
+
+  private widestDimension(start: number, end: number): number {
+    const dims = this.data[this.indices[start]].length;
+    let bestDim = 0;
+    let bestSpread = -1;
+    for (let d = 0; d < dims; d++) {
+      let min = Infinity;
+      let max = -Infinity;
+      for (let i = start; i < end; i++) {
+        const value = this.data[this.indices[i]][d];
+        if (value < min) min = value;
+        if (value > max) max = value;
+      }
+      if (max - min > bestSpread) {
+        bestSpread = max - min;
+        bestDim = d;
+      }
+    }
+    return bestDim;
+  }
+
+  private search(
+    nodeId: number,
+    bound: number,
+    point: Vector,
+    heap: NeighborHeap
+  ): void {
+    if (bound > heap.worst()) return;
+    const node = this.nodes[nodeId];
+
+    if (node.left === -1) {
+      for (let i = node.start; i < node.end; i++) {
+        const index = this.indices[i];
+        heap.push(index, this.distance(point, this.data[index]));
+      }
+      return;
+    }
+
+    // Visit the closer child first so the heap tightens sooner
+    const leftBound = this.minDistance(this.nodes[node.left], point);
+    const rightBound = this.minDistance(this.nodes[node.right], point);
+    if (leftBound <= rightBound) {
+      this.search(node.left, leftBound, point, heap);
+      this.search(node.right, rightBound, point, heap);
+    } else {
+      this.search(node.right, rightBound, point, heap);
+      this.search(node.left, leftBound, point, heap);
+    }
+  }
+
+  private searchRadius(
+    nodeId: number,
+    point: Vector,
+    radius: number,
+    found: RadiusResult
+  ): void {
+    const node = this.nodes[nodeId];
+    if (this.minDistance(node, point) > radius) return;
+
+    if (node.left === -1) {
+      for (let i = node.start; i < node.end; i++) {
+        const index = this.indices[i];
+        const distance = this.distance(point, this.data[index]);
+        if (distance <= radius) found.push(index, distance);
+      }
+      return;
+    }
+    this.searchRadius(node.left, point, radius, found);
+    this.searchRadius(node.right, point, radius, found);
+  }
+}
+
+// Exhaustive search, for metrics no tree can bound (cosine, arbitrary
+// functions) and for points that are not dense vectors
+export class BruteForceIndex<P = Vector> implements SpatialIndex<P> {
+  constructor(
+    private readonly data: P[],
+    private readonly distance: (a: P, b: P) => number
+  ) {}
+
+  query(point: P, k: number): KNNResult {
+    const heap = new NeighborHeap(Math.min(k, this.data.length));
+    if (k > 0) {
+      this.data.forEach((other, index) =>
+        heap.push(index, this.distance(point, other))
+      );
+    }
+    return heap.toSortedResult();
+  }
+
+  queryRadius(point: P, radius: number): KNNResult {
+    const found = new RadiusResult();
+    this.data.forEach((other, index) => {
+      const distance = this.distance(point, other);
+      if (distance <= radius) found.push(index, distance);
+    });
+    return found.toSortedResult();
+  }
+}
+
+// Axis-aligned bounding boxes. The closest point of a box is the query
+// clamped into it, which bounds any coordinate-wise monotone metric (the
+// minkowski family and squared euclidean).
+export class KDTree extends BinarySpaceTree<KDNode> {
+  private clamped: number[] = [];
+
+  protected createNode(start: number, end: number): KDNode {
+    const dims = this.data[this.indices[start]].length;
+    const lower = new Array(dims).fill(Infinity);
+    const upper = new Array(dims).fill(-Infinity);
+    for (let i = start; i < end; i++) {
+      const point = this.data[this.indices[i]];
+      for (let d = 0; d < dims; d++) {
+        lower[d] = Math.min(lower[d], point[d]);
+        upper[d] = Math.max(upper[d], point[d]);
+      }
+    }
+    return { start, end, left: -1, right: -1, lower, upper };
+  }
+
+  protected minDistance(node: KDNode, point: Vector): number {
+    const clamped = this.clamped;
+    clamped.length = point.length;
+    for (let d = 0; d < point.length; d++) {
+      clamped[d] = Math.min(Math.max(point[d], node.lower[d]), node.upper[d]);
+    }
+    return this.distance(point, clamped);
+  }
+}
+
+// Centroid and covering radius per node. The bound relies on the triangle
+// inequality, so the metric has to be a true metric.
+export class BallTree extends BinarySpaceTree<BallNode> {
+  protected createNode(start: number, end: number): BallNode {
+    const dims = this.data[this.indices[start]].length;
+    const centroid = new Array(dims).fill(0);
+    for (let i = start; i < end; i++) {
+      const point = this.data[this.indices[i]];
+      for (let d = 0; d < dims; d++) {
+        centroid[d] += point[d] / (end - start);
+      }
+    }
+    let radius = 0;
+    for (let i = start; i < end; i++) {
+      radius = Math.max(
+        radius,
+        this.distance(centroid, this.data[this.indices[i]])
+      );
+    }
+    return { start, end, left: -1, right: -1, centroid, radius };
+  }
+
+  protected minDistance(node: BallNode, point: Vector): number {
+    return Math.max(0, this.distance(point, node.centroid) - node.radius);
+  }
+}
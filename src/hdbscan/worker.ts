@@ -0,0 +1,62 @@
+import { parentPort, workerData } from "worker_threads";
+import { Point, toPoints } from "./input";
+import { resolveMetric, Vector } from "./metrics";
+import { rowCoreDistance, WorkerResult, WorkerTask } from "./parallel";
+import { resolveSparseMetric } from "./sparse";
+import { BallTree, KDTree } from "./trees";
+
+// Entry point of the threads started by runInWorkers: computes the rows of
+// one block exactly as HDBSCAN.fit would on the main thread
+function run(task: WorkerTask): WorkerResult {
+  const { start, end } = task;
+
+  if (task.kind === "coreDistances") {
+    const { n, minSamples } = task;
+    const matrix = new Float64Array(task.matrix);
+    const coreDistances = new Float64Array(end - start);
+    for (let i = start; i < end; i++) {
+      const row = matrix.subarray(i * n, (i + 1) * n);
+      coreDistances[i - start] = rowCoreDistance(row, i, minSamples);
+    }
+    return { coreDistances };
+  }
+
+  const { rows: data, sparse } = toPoints(task.data, task.dimensions);
+  const n = data.length;
+
+  if (task.kind === "tree") {
+    const { minSamples } = task;
+    const vectors = data as Vector[];
+    const distance = resolveMetric(task.metric, task.p);
+    const tree =
+      task.tree === "balltree"
+        ? new BallTree(vectors, distance, task.leafSize)
+        : new KDTree(vectors, distance, task.leafSize);
+    // the query returns the point itself first, at distance 0
+    const k = Math.min(minSamples, n - 1) + 1;
+    const coreDistances = new Float64Array(end - start);
+    for (let i = start; i < end; i++) {
+      coreDistances[i - start] = tree.query(vectors[i], k).distances[k - 1];
+    }
+    return { coreDistances };
+  }
+
+  const distance = (
+    sparse
+      ? resolveSparseMetric(task.metric)
+      : resolveMetric(task.metric, task.p)
+  ) as (a: Point, b: Point) => number;
+  // blocks own disjoint pairs, so the writes never overlap
+  const matrix = new Float64Array(task.matrix);
+  for (let i = start; i < end; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const d = distance(data[i], data[j]);
+      matrix[i * n + j] = d;
+      matrix[j * n + i] = d;
+    }
+  }
+  return { coreDistances: new Float64Array(0) };
+}
+
+const result = run(workerData as WorkerTask);
+parentPort!.postMessage(result, [result.coreDistances.buffer as ArrayBuffer]);
@@ -1,2 +1,63 @@
-export { HDBSCAN } from "./hdbscan/core";
-export type { HDBSCANParams } from "./hdbscan/core";
+export { HDBSCAN, validityIndex } from "./hdbscan/core";
+export type {
+  Algorithm,
+  ClusterInfo,
+  ClusterSelectionMethod,
+  FitAsyncOptions,
+  HDBSCANJSON,
+  HDBSCANParams,
+  ValidityOptions,
+  ValidityResult
+} from "./hdbscan/core";
+export {
+  euclideanDistance,
+  squaredEuclideanDistance,
+  manhattanDistance,
+  chebyshevDistance,
+  minkowskiDistance,
+  cosineDistance
+} from "./hdbscan/metrics";
+export type {
+  DistanceFunction,
+  Metric,
+  MetricName,
+  Vector
+} from "./hdbscan/metrics";
+export type { DataInput, FlatMatrix } from "./hdbscan/input";
+export {
+  sparseEuclideanDistance,
+  sparseSquaredEuclideanDistance,
+  sparseCosineDistance
+} from "./hdbscan/sparse";
+export type {
+  CSRMatrix,
+  SparseDistanceFunction,
+  SparseInput,
+  SparseVector
+} from "./hdbscan/sparse";
+export { KDTree, BallTree } from "./hdbscan/trees";
+export type { KNNResult, SpatialIndex } from "./hdbscan/trees";
+export { CondensedTree } from "./hdbscan/condensedTree";
+export type {
+  CondensedTreeJSON,
+  CondensedTreeRow
+} from "./hdbscan/condensedTree";
+export { SingleLinkageTree } from "./hdbscan/singleLinkageTree";
+export type { LinkageRow } from "./hdbscan/singleLinkageTree";
+export type { PredictionResult } from "./hdbscan/prediction";
+export type {
+  FitProgress,
+  FitStage,
+  FitTimings,
+  ProgressCallback
+} from "./hdbscan/progress";
+export { consoleLogger } from "./hdbscan/logger";
+export type { LogFields, Logger, LogLevel } from "./hdbscan/logger";
+export { outlierScores } from "./hdbscan/glosh";
+export {
+  HDBSCANError,
+  InvalidInputError,
+  InvalidParameterError,
+  NotFittedError,
+  UnsupportedOperationError
+} from "./hdbscan/errors";